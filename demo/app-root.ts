@@ -34,7 +34,7 @@ export class AppRoot
     e.preventDefault();
     const index = parseInt(this.scrollToInput.value, 10);
     const animated = this.animatedCheckbox.checked;
-    if (index >= 0) {
+    if (index >= 0 && index < this.infiniteScroller.itemCount) {
       this.infiniteScroller.scrollToCell(index, animated);
     }
   }
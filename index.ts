@@ -1,6 +1,28 @@
 export {
   InfiniteScroller,
   InfiniteScrollerCellProviderInterface,
+  InfiniteScrollerDataSourceInterface,
   InfiniteScrollerInterface,
+  InfiniteScrollerEventMap,
+  BufferPolicy,
   CellSelectionDetails,
-} from './src/infinite-scroller';
+  CellImpressionDetails,
+  CellLoadFailedDetails,
+  CellReorderDetails,
+  ErrorCellTemplate,
+  NewItemsShownDetails,
+  RefreshRequestedDetails,
+  ScrollDirection,
+  ScrollSettledDetails,
+  ScrollerMetricsDetails,
+  ScrubRequestedDetails,
+  ScrollState,
+  ScrollToCellOptions,
+  ScrollerLayout,
+  SelectionMode,
+  SelectionChangedDetails,
+  VisibleCellsChangedDetails,
+} from './src/infinite-scroller.js';
+export { CellPoolMetrics } from './src/cell-recycling-pool.js';
+export { SectionIndexPath } from './src/section-index.js';
+export { InstrumentationCounts } from './src/scroller-instrumentation.js';
@@ -0,0 +1,82 @@
+/**
+ * How well the cell recycling pool is doing
+ */
+export type CellPoolMetrics = {
+  /** How many cells were rendered into recycled DOM */
+  hits: number;
+  /** How many cells had to be built from scratch because no DOM of their type was pooled */
+  misses: number;
+  /** How many cells are currently waiting in the pool */
+  pooledCellCount: number;
+};
+
+/**
+ * Keeps the DOM of cells that left the buffer, grouped by cell type,
+ * so it can be re-bound to new data instead of being built again.
+ */
+export class CellRecyclingPool {
+  /**
+   * How many cells of each type to keep at most; the rest are dropped
+   *
+   * @memberof CellRecyclingPool
+   */
+  maxSizePerType: number;
+
+  /**
+   * The pooled cells keyed by cell type
+   *
+   * @private
+   * @memberof CellRecyclingPool
+   */
+  private pools = new Map<string, HTMLElement[]>();
+
+  private hits = 0;
+
+  private misses = 0;
+
+  /**
+   * @param maxSizePerType How many cells of each type to keep at most
+   */
+  constructor(maxSizePerType: number) {
+    this.maxSizePerType = maxSizePerType;
+  }
+
+  /**
+   * Take a pooled cell of the given type out of the pool, if there is one
+   */
+  acquire(type: string): HTMLElement | undefined {
+    const element = this.pools.get(type)?.pop();
+    if (element) {
+      this.hits += 1;
+    } else {
+      this.misses += 1;
+    }
+    return element;
+  }
+
+  /**
+   * Put a cell that is no longer rendered back in the pool,
+   * unless the pool for its type is already full
+   */
+  release(type: string, element: HTMLElement) {
+    const pool = this.pools.get(type) ?? [];
+    if (pool.length >= this.maxSizePerType) return;
+    pool.push(element);
+    this.pools.set(type, pool);
+  }
+
+  /**
+   * Drop all the pooled cells
+   */
+  clear() {
+    this.pools.clear();
+  }
+
+  get metrics(): CellPoolMetrics {
+    let pooledCellCount = 0;
+    this.pools.forEach(pool => {
+      pooledCellCount += pool.length;
+    });
+    return { hits: this.hits, misses: this.misses, pooledCellCount };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * How close to the edge of the viewport the pointer has to be to auto-scroll, in pixels
+ */
+const autoScrollEdgeSize = 48;
+
+/**
+ * The fastest the viewport auto-scrolls, in pixels per frame
+ */
+const maxAutoScrollSpeed = 16;
+
+/**
+ * Where a dragged cell would be inserted when dropped over a cell: before it
+ * if the pointer is in its leading half, or after it otherwise
+ *
+ * eg. insertionIndexAt(4, 130, 100, 200) is 4 and insertionIndexAt(4, 170, 100, 200) is 5
+ *
+ * @param {number} index the index of the cell under the pointer
+ * @param {number} pointer the position of the pointer along the drop axis
+ * @param {number} cellStart the position of the cell's leading edge along the drop axis
+ * @param {number} cellEnd the position of the cell's trailing edge along the drop axis
+ * @returns {number} the index the dragged cell would be inserted before
+ */
+export function insertionIndexAt(
+  index: number,
+  pointer: number,
+  cellStart: number,
+  cellEnd: number
+): number {
+  return pointer < (cellStart + cellEnd) / 2 ? index : index + 1;
+}
+
+/**
+ * The index a cell ends up at when it is moved to be inserted before `insertionIndex`,
+ * since the cells after it shift back to fill its place
+ *
+ * eg. moveTargetIndex(2, 5) is 4 and moveTargetIndex(5, 2) is 2
+ *
+ * @param {number} from the index of the dragged cell
+ * @param {number} insertionIndex the index it is inserted before
+ * @returns {number} the index to move it to
+ */
+export function moveTargetIndex(from: number, insertionIndex: number): number {
+  return insertionIndex > from ? insertionIndex - 1 : insertionIndex;
+}
+
+/**
+ * How far to auto-scroll this frame while dragging near an edge of the viewport,
+ * faster the closer the pointer is to the edge
+ *
+ * @param {number} pointer the position of the pointer along the scroll axis
+ * @param {number} viewportStart the start of the viewport along the scroll axis
+ * @param {number} viewportEnd the end of the viewport along the scroll axis
+ * @returns {number} how far to scroll, negative towards the start
+ */
+export function autoScrollDelta(
+  pointer: number,
+  viewportStart: number,
+  viewportEnd: number
+): number {
+  const startDistance = pointer - viewportStart;
+  const endDistance = viewportEnd - pointer;
+  if (startDistance < autoScrollEdgeSize) {
+    const closeness = 1 - Math.max(0, startDistance) / autoScrollEdgeSize;
+    return -Math.ceil(maxAutoScrollSpeed * closeness);
+  }
+  if (endDistance < autoScrollEdgeSize) {
+    const closeness = 1 - Math.max(0, endDistance) / autoScrollEdgeSize;
+    return Math.ceil(maxAutoScrollSpeed * closeness);
+  }
+  return 0;
+}
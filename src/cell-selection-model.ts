@@ -0,0 +1,129 @@
+import { generateRange } from './range-generator.js';
+import { IndexMapping, remapIndexSet } from './index-remapping.js';
+
+/**
+ * Tracks which cell indices are selected, independently of which cells
+ * are rendered, along with the anchor for range selections.
+ *
+ * Each of the mutating methods returns whether the selection changed.
+ */
+export class CellSelectionModel {
+  /**
+   * The selected indices
+   *
+   * @private
+   * @memberof CellSelectionModel
+   */
+  private selected = new Set<number>();
+
+  /**
+   * Where a range selection starts from: the last index that was
+   * selected or toggled on its own
+   *
+   * @private
+   * @memberof CellSelectionModel
+   */
+  private anchorIndex?: number;
+
+  /**
+   * The selected indices, in ascending order
+   */
+  get indices(): number[] {
+    return Array.from(this.selected).sort((a, b) => a - b);
+  }
+
+  /**
+   * Whether the given index is selected
+   */
+  has(index: number): boolean {
+    return this.selected.has(index);
+  }
+
+  /**
+   * Select only the given index
+   */
+  select(index: number): boolean {
+    this.anchorIndex = index;
+    if (this.selected.size === 1 && this.selected.has(index)) return false;
+    this.selected = new Set([index]);
+    return true;
+  }
+
+  /**
+   * Add or remove the given index from the selection
+   */
+  toggle(index: number): boolean {
+    this.anchorIndex = index;
+    if (!this.selected.delete(index)) this.selected.add(index);
+    return true;
+  }
+
+  /**
+   * Select the range from the anchor to the given index
+   *
+   * @param index The end of the range
+   * @param additive Whether to add the range to the selection instead of replacing it
+   */
+  selectRange(index: number, additive: boolean): boolean {
+    const anchorIndex = this.anchorIndex ?? index;
+    const range = generateRange(
+      Math.min(anchorIndex, index),
+      Math.max(anchorIndex, index),
+      1
+    );
+    const previousIndices = this.indices;
+    if (!additive) this.selected.clear();
+    range.forEach(rangeIndex => this.selected.add(rangeIndex));
+    return !this.isSameAs(previousIndices);
+  }
+
+  /**
+   * Select every index from 0 to `itemCount - 1`
+   */
+  selectAll(itemCount: number): boolean {
+    const previousIndices = this.indices;
+    this.selected = new Set(generateRange(0, itemCount - 1, 1));
+    return !this.isSameAs(previousIndices);
+  }
+
+  /**
+   * Deselect all but one index: the anchor if it's selected, or else the first
+   */
+  keepOne(): boolean {
+    if (this.selected.size <= 1) return false;
+    const { anchorIndex } = this;
+    const keptIndex =
+      anchorIndex !== undefined && this.selected.has(anchorIndex)
+        ? anchorIndex
+        : this.indices[0];
+    this.selected = new Set([keptIndex]);
+    return true;
+  }
+
+  /**
+   * Deselect everything
+   */
+  clear(): boolean {
+    this.anchorIndex = undefined;
+    if (this.selected.size === 0) return false;
+    this.selected.clear();
+    return true;
+  }
+
+  /**
+   * Move the selection to the new indices after items were added or removed
+   */
+  remapIndices(mapping: IndexMapping) {
+    this.selected = remapIndexSet(this.selected, mapping);
+    if (this.anchorIndex !== undefined) {
+      this.anchorIndex = mapping(this.anchorIndex);
+    }
+  }
+
+  private isSameAs(indices: number[]): boolean {
+    return (
+      indices.length === this.selected.size &&
+      indices.every(index => this.selected.has(index))
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * A contiguous, inclusive range of cell indices
+ */
+export interface CellWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Expand a range of cell indices so it starts at the beginning of a row
+ * and ends at the end of a row, clamped to the number of items.
+ *
+ * eg. rowAlignedWindow(7, 12, 5, 100) will produce { start: 5, end: 14 }
+ *
+ * @param {number} start the first index in the range
+ * @param {number} end the last index in the range
+ * @param {number} columnCount the number of cells in each row
+ * @param {number} itemCount the total number of cells
+ * @returns {CellWindow}
+ */
+export function rowAlignedWindow(
+  start: number,
+  end: number,
+  columnCount: number,
+  itemCount: number
+): CellWindow {
+  const columns = Math.max(1, columnCount);
+  const lastIndex = itemCount - 1;
+  if (lastIndex < 0) return { start: 0, end: -1 };
+  const clampedStart = Math.min(Math.max(0, start), lastIndex);
+  const clampedEnd = Math.min(Math.max(clampedStart, end), lastIndex);
+  return {
+    start: Math.floor(clampedStart / columns) * columns,
+    end: Math.min(
+      (Math.floor(clampedEnd / columns) + 1) * columns - 1,
+      lastIndex
+    ),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Record where the given elements are on screen, to animate them
+ * from there after the layout changes
+ *
+ * @param {HTMLElement[]} elements
+ * @returns {Map<HTMLElement, DOMRect>}
+ */
+export function recordPositions(
+  elements: HTMLElement[]
+): Map<HTMLElement, DOMRect> {
+  return new Map(
+    elements.map(element => [element, element.getBoundingClientRect()])
+  );
+}
+
+/**
+ * Animate elements from their recorded positions to where they are now
+ * (FLIP: first, last, invert, play). Elements that are no longer connected
+ * are skipped and the given new elements are faded in.
+ *
+ * @param {Map<HTMLElement, DOMRect>} positions recorded by `recordPositions()`
+ * @param {HTMLElement[]} newElements elements that didn't exist before the change
+ * @param {number} duration in milliseconds
+ */
+export function animateFromPositions(
+  positions: Map<HTMLElement, DOMRect>,
+  newElements: HTMLElement[],
+  duration: number
+) {
+  const reducedMotion = window.matchMedia?.(
+    '(prefers-reduced-motion: reduce)'
+  ).matches;
+  if (reducedMotion || typeof Element.prototype.animate !== 'function') return;
+
+  positions.forEach((first, element) => {
+    if (!element.isConnected) return;
+    const last = element.getBoundingClientRect();
+    const deltaX = first.left - last.left;
+    const deltaY = first.top - last.top;
+    if (deltaX === 0 && deltaY === 0) return;
+    element.animate(
+      [
+        { transform: `translate(${deltaX}px, ${deltaY}px)` },
+        { transform: 'none' },
+      ],
+      { duration, easing: 'ease-in-out' }
+    );
+  });
+
+  newElements.forEach(element => {
+    element.animate([{ opacity: 0 }, { opacity: 1 }], {
+      duration,
+      easing: 'ease-in',
+    });
+  });
+}
@@ -0,0 +1,89 @@
+import { IndexMapping, remapIndexSet } from './index-remapping.js';
+
+/**
+ * Reports an impression for each index once it has stayed visible for the
+ * dwell time, and only the first time it does.
+ */
+export class ImpressionTracker {
+  /**
+   * How long an index has to stay visible to count as an impression, in milliseconds
+   *
+   * @memberof ImpressionTracker
+   */
+  dwellTime: number;
+
+  /**
+   * The indices that have already made an impression
+   *
+   * @private
+   * @memberof ImpressionTracker
+   */
+  private impressedIndices = new Set<number>();
+
+  /**
+   * The timers for the visible indices that haven't made an impression yet
+   *
+   * @private
+   * @memberof ImpressionTracker
+   */
+  private dwellTimers = new Map<number, number>();
+
+  private impressionMade: (index: number) => void;
+
+  /**
+   * @param dwellTime How long an index has to stay visible, in milliseconds
+   * @param impressionMade Called with each index that made an impression
+   */
+  constructor(dwellTime: number, impressionMade: (index: number) => void) {
+    this.dwellTime = dwellTime;
+    this.impressionMade = impressionMade;
+  }
+
+  /**
+   * Start the dwell timer for an index that became visible
+   */
+  indexVisible(index: number) {
+    if (this.impressedIndices.has(index) || this.dwellTimers.has(index)) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      this.dwellTimers.delete(index);
+      this.impressedIndices.add(index);
+      this.impressionMade(index);
+    }, this.dwellTime);
+    this.dwellTimers.set(index, timer);
+  }
+
+  /**
+   * Cancel the dwell timer for an index that is no longer visible
+   */
+  indexHidden(index: number) {
+    window.clearTimeout(this.dwellTimers.get(index));
+    this.dwellTimers.delete(index);
+  }
+
+  /**
+   * Move the impressions to their new indices after items were added or removed.
+   * The dwell timers are cancelled since their indices are no longer valid.
+   */
+  remapIndices(mapping: IndexMapping) {
+    this.stop();
+    this.impressedIndices = remapIndexSet(this.impressedIndices, mapping);
+  }
+
+  /**
+   * Cancel all of the dwell timers
+   */
+  stop() {
+    this.dwellTimers.forEach(timer => window.clearTimeout(timer));
+    this.dwellTimers.clear();
+  }
+
+  /**
+   * Cancel all of the dwell timers and forget the impressions
+   */
+  clear() {
+    this.stop();
+    this.impressedIndices.clear();
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Maps an index from before a change in the items to its index after it,
+ * or `undefined` if the item no longer exists
+ */
+export type IndexMapping = (index: number) => number | undefined;
+
+/**
+ * The mapping for inserting `count` items at `insertionIndex`
+ *
+ * eg. insertionMapping(2, 3) maps 0 to 0, 1 to 1 and 2 to 5
+ *
+ * @param {number} insertionIndex where the items are inserted
+ * @param {number} count how many items are inserted
+ * @returns {IndexMapping}
+ */
+export function insertionMapping(
+  insertionIndex: number,
+  count: number
+): IndexMapping {
+  return index => (index >= insertionIndex ? index + count : index);
+}
+
+/**
+ * The mapping for removing `count` items at `removalIndex`
+ *
+ * eg. removalMapping(2, 3) maps 0 to 0, 1 to 1, 2 to 4 to `undefined` and 5 to 2
+ *
+ * @param {number} removalIndex where the items are removed
+ * @param {number} count how many items are removed
+ * @returns {IndexMapping}
+ */
+export function removalMapping(
+  removalIndex: number,
+  count: number
+): IndexMapping {
+  return index => {
+    if (index < removalIndex) return index;
+    if (index < removalIndex + count) return undefined;
+    return index - count;
+  };
+}
+
+/**
+ * The mapping for moving the item at `from` to `to`, shifting the items in between
+ *
+ * eg. moveMapping(1, 3) maps 0 to 0, 1 to 3, 2 to 1, 3 to 2 and 4 to 4
+ *
+ * @param {number} from the index of the item being moved
+ * @param {number} to the index it is moved to
+ * @returns {IndexMapping}
+ */
+export function moveMapping(from: number, to: number): IndexMapping {
+  return index => {
+    if (index === from) return to;
+    if (from < to && index > from && index <= to) return index - 1;
+    if (from > to && index >= to && index < from) return index + 1;
+    return index;
+  };
+}
+
+/**
+ * Remap the indices in a set
+ *
+ * @param {Set<number>} indices
+ * @param {IndexMapping} mapping
+ * @returns {Set<number>} the remapped indices, without the ones that no longer exist
+ */
+export function remapIndexSet(
+  indices: Set<number>,
+  mapping: IndexMapping
+): Set<number> {
+  const remapped = new Set<number>();
+  indices.forEach(index => {
+    const newIndex = mapping(index);
+    if (newIndex !== undefined) remapped.add(newIndex);
+  });
+  return remapped;
+}
+
+/**
+ * Remap the keys of a map that is keyed by index
+ *
+ * @param {Map<number, T>} values
+ * @param {IndexMapping} mapping
+ * @returns {Map<number, T>} the remapped values, without the ones that no longer exist
+ */
+export function remapIndexMap<T>(
+  values: Map<number, T>,
+  mapping: IndexMapping
+): Map<number, T> {
+  const remapped = new Map<number, T>();
+  values.forEach((value, index) => {
+    const newIndex = mapping(index);
+    if (newIndex !== undefined) remapped.set(newIndex, value);
+  });
+  return remapped;
+}
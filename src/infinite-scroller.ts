@@ -2,20 +2,380 @@ import {
   LitElement,
   html,
   css,
+  unsafeCSS,
   TemplateResult,
   CSSResultGroup,
   PropertyValues,
   render,
   nothing,
+  isServer,
 } from 'lit';
-import { property, customElement, query, queryAll } from 'lit/decorators.js';
+import {
+  property,
+  customElement,
+  query,
+  queryAll,
+  state,
+} from 'lit/decorators.js';
 import { repeat } from 'lit/directives/repeat.js';
-import { generateRange } from './range-generator';
+import { styleMap } from 'lit/directives/style-map.js';
+import { generateRange } from './range-generator.js';
+import { CellWindow, rowAlignedWindow } from './cell-window.js';
+import { ItemPageCache } from './item-page-cache.js';
+import {
+  IndexMapping,
+  insertionMapping,
+  moveMapping,
+  remapIndexMap,
+  remapIndexSet,
+  removalMapping,
+} from './index-remapping.js';
+import { animateFromPositions, recordPositions } from './flip-animation.js';
+import { CellSelectionModel } from './cell-selection-model.js';
+import { ScrollVelocityTracker } from './scroll-velocity-tracker.js';
+import { CellPoolMetrics, CellRecyclingPool } from './cell-recycling-pool.js';
+import { SectionIndex, SectionIndexPath } from './section-index.js';
+import { ImpressionTracker } from './impression-tracker.js';
+import { PullToRefreshGesture } from './pull-to-refresh-gesture.js';
+import {
+  InstrumentationCounts,
+  ScrollerInstrumentation,
+} from './scroller-instrumentation.js';
+import { scrubFractionForIndex, scrubIndexAt } from './scrubber-position.js';
+import {
+  autoScrollDelta,
+  insertionIndexAt,
+  moveTargetIndex,
+} from './cell-reordering.js';
+
+/**
+ * The minimum number of cells to keep rendered on either side of the visible cells
+ */
+const minimumCellBufferSize = 10;
+
+/**
+ * How many pages of items loaded from the `dataSource` to keep at most
+ * on top of the ones the buffered cells need
+ */
+const maxCachedPages = 20;
+
+/**
+ * The height of the grid rows that masonry cells span, in pixels
+ */
+const masonryRowHeight = 4;
+
+/**
+ * How long after the last scroll event the scrolling is considered to have settled
+ */
+const scrollSettleDelay = 150;
+
+/**
+ * The intersection ratios the cells are observed at, to tell
+ * partially visible cells from fully visible ones
+ */
+const intersectionThresholds = [0, 1];
+
+/**
+ * The intersection ratio above which a cell counts as fully visible,
+ * allowing for subpixel rounding
+ */
+const fullyVisibleRatio = 0.99;
+
+/**
+ * How far the cells have to be pulled down to refresh, in pixels
+ */
+const pullToRefreshThreshold = 80;
+
+/**
+ * How far the pointer has to move before pressing on a cell starts dragging it, in pixels
+ */
+const dragStartDistance = 5;
+
+/**
+ * How many times `scrollToCell()` corrects the position for layout shifts
+ */
+const scrollToCellMaxPasses = 5;
+
+/**
+ * How many frames to wait at most for a scroll to settle, eg. a smooth scroll
+ */
+const scrollSettleMaxFrames = 60;
+
+/**
+ * How many times `restoreScrollState()` corrects the position for layout shifts
+ */
+const scrollStateMaxPasses = 3;
+
+/**
+ * Resolves on the next animation frame
+ */
+function nextAnimationFrame(): Promise<number> {
+  return new Promise(resolve => requestAnimationFrame(resolve));
+}
+
+/**
+ * How long cells take to animate to their new positions when items change
+ */
+const itemChangeAnimationDuration = 250;
+
+/**
+ * A cell and the position of its leading edge on screen, to keep it
+ * in the same place when the cells around it change
+ */
+type ScrollAnchor = { element: HTMLElement; position: number };
+
+/**
+ * A cell being dragged to reorder it, where the pointer is and where
+ * the cell would be inserted if it was dropped
+ */
+type CellDrag = {
+  from: number;
+  element: HTMLElement;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  active: boolean;
+  insertionIndex?: number;
+};
+
+/**
+ * Where to show the drop indicator, relative to the container
+ */
+type DropIndicatorRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * The cell type used for recycling when the provider doesn't give one
+ */
+const defaultCellType = 'default';
+
+/**
+ * A cell's recycled content and the type it was pooled under
+ */
+type RecycledCell = { type: string; content: HTMLElement };
 
 export interface InfiniteScrollerCellProviderInterface {
   cellForIndex(index: number): TemplateResult | undefined;
+
+  /**
+   * The type of the cell at the given index when `cellRecyclingEnabled` is set.
+   * Cells are only recycled into cells of the same type, so cells whose templates
+   * differ should have different types.
+   */
+  cellTypeForIndex?(index: number): string;
+
+  /**
+   * The header for a section when `sectionItemCounts` is set
+   */
+  headerForSection?(section: number): TemplateResult | undefined;
+
+  /**
+   * The estimated height (or width when horizontal) in pixels of a cell that
+   * hasn't been rendered and measured yet, so the scrollbar doesn't jump as
+   * cells render
+   */
+  estimatedSizeForIndex?(index: number): number | undefined;
+
+  /**
+   * The label to show in the scrubber's bubble while dragging it over the
+   * given index when `scrubberEnabled` is set, eg. the item's year
+   */
+  labelForIndex?(index: number): string | undefined;
+
+  /**
+   * The detail panel to expand in place for the cell at `expandedIndex`
+   */
+  detailForIndex?(index: number): TemplateResult | undefined;
+}
+
+/**
+ * An asynchronous alternative to the cell provider: the scroller fetches the items
+ * it needs in page-aligned batches and renders them once they've loaded.
+ */
+export interface InfiniteScrollerDataSourceInterface<T = unknown> {
+  /**
+   * Fetch the items from `start` to `end` (inclusive). Returning fewer items
+   * means there are no more, so the rest aren't asked for again until the
+   * `itemCount` changes.
+   *
+   * @param start The index of the first item
+   * @param end The index of the last item
+   * @param signal Aborted when the range has been scrolled away from before it loaded
+   */
+  fetchRange(start: number, end: number, signal: AbortSignal): Promise<T[]>;
+
+  /**
+   * Render the cell for a loaded item
+   *
+   * @param item The item returned by `fetchRange()`
+   * @param index The index of the item
+   */
+  cellForItem(item: T, index: number): TemplateResult | undefined;
+
+  /**
+   * The type of the cell for a loaded item when `cellRecyclingEnabled` is set,
+   * see `InfiniteScrollerCellProviderInterface.cellTypeForIndex()`
+   */
+  cellTypeForItem?(item: T, index: number): string;
+
+  /**
+   * The header for a section when `sectionItemCounts` is set
+   */
+  headerForSection?(section: number): TemplateResult | undefined;
+
+  /**
+   * The estimated height (or width when horizontal) in pixels of a cell that
+   * hasn't been rendered and measured yet, so the scrollbar doesn't jump as
+   * cells render
+   */
+  estimatedSizeForIndex?(index: number): number | undefined;
+
+  /**
+   * The label to show in the scrubber's bubble while dragging it over the
+   * given index when `scrubberEnabled` is set, eg. the item's year
+   */
+  labelForIndex?(index: number): string | undefined;
+
+  /**
+   * The detail panel to expand in place for the cell at `expandedIndex`
+   */
+  detailForIndex?(index: number): TemplateResult | undefined;
+}
+
+/**
+ * The cell to display when a cell fails to load, or a function returning it
+ */
+export type ErrorCellTemplate =
+  | TemplateResult
+  | ((index: number, error: unknown) => TemplateResult);
+
+/**
+ * How to scroll to a cell with `scrollToCell()`
+ */
+export type ScrollToCellOptions = {
+  /** Whether to scroll smoothly (default `auto`) */
+  behavior?: 'auto' | 'smooth';
+  /**
+   * Where to align the cell in the viewport along the scroll axis (default `start`),
+   * `nearest` scrolling as little as possible to bring it into view
+   */
+  block?: 'start' | 'center' | 'end' | 'nearest';
+  /**
+   * How many pixels further towards the end to place the cell from its aligned
+   * position, eg. to clear a sticky header
+   */
+  offset?: number;
+};
+
+/**
+ * A snapshot of the scroll position that can be restored later,
+ * eg. when navigating back to the scroller
+ */
+export type ScrollState = {
+  /** The index of the first visible cell */
+  firstVisibleIndex: number;
+  /** How far the leading edge of the first visible cell is scrolled past the start of the viewport */
+  offset: number;
+  /** The number of cells at the time */
+  itemCount: number;
+  /** The measured sizes of the rendered cells along the scroll axis, keyed by index */
+  cellSizes: Record<number, number>;
+};
+
+/**
+ * The scroll state in a saved value, if it is one
+ */
+function parseScrollState(value: unknown): ScrollState | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { firstVisibleIndex, offset, itemCount, cellSizes } = value as Partial<
+    Record<keyof ScrollState, unknown>
+  >;
+  const savedSizes = cellSizes ?? {};
+  if (
+    !Number.isInteger(firstVisibleIndex) ||
+    typeof offset !== 'number' ||
+    !Number.isFinite(offset) ||
+    !Number.isInteger(itemCount) ||
+    !savedSizes ||
+    typeof savedSizes !== 'object'
+  ) {
+    return undefined;
+  }
+  const sizes: Record<number, number> = {};
+  Object.entries(savedSizes as Record<string, unknown>).forEach(
+    ([index, size]) => {
+      if (typeof size === 'number' && Number.isFinite(size)) {
+        sizes[Number(index)] = size;
+      }
+    }
+  );
+  return {
+    firstVisibleIndex: Math.max(0, firstVisibleIndex as number),
+    offset,
+    itemCount: Math.max(0, itemCount as number),
+    cellSizes: sizes,
+  };
 }
 
+/**
+ * How the cells are laid out:
+ * - `grid`: as many columns as fit, sized by `--infiniteScrollerCellMinWidth`
+ *   and `--infiniteScrollerCellMaxWidth`
+ * - `list`: a single column
+ * - `fixed-grid`: `fixedColumnCount` columns
+ * - `masonry`: like `grid`, but each cell is only as tall as its content and
+ *   fills in the space below the cell above it
+ */
+export type ScrollerLayout = 'grid' | 'list' | 'fixed-grid' | 'masonry';
+
+/**
+ * The direction the cells scroll in
+ */
+export type ScrollerOrientation = 'vertical' | 'horizontal';
+
+/**
+ * How many cells to render around the visible cells. By default, the larger of 10
+ * and the number of visible cells are rendered on either side.
+ */
+export type BufferPolicy = {
+  /** The number of cells to render before the visible cells */
+  leadingCells?: number;
+  /** The number of cells to render after the visible cells */
+  trailingCells?: number;
+  /** Render at least the cells within this many pixels of the viewport on either side */
+  overscanPixels?: number;
+  /** Render at least the cells within this many viewport sizes of the viewport on either side */
+  overscanViewports?: number;
+  /**
+   * Widen the buffer in the direction of travel when scrolling fast, and render
+   * placeholders instead of cells while flinging until the scrolling settles
+   */
+  velocityAdaptive?: boolean;
+  /** The scroll velocity above which the buffer is widened, in pixels per millisecond (default 1) */
+  fastScrollVelocity?: number;
+  /** How much the buffer in the direction of travel is widened by when scrolling fast (default 3) */
+  fastScrollMultiplier?: number;
+  /** The scroll velocity above which only placeholders are rendered, in pixels per millisecond (default 5) */
+  flingVelocity?: number;
+};
+
+/**
+ * How many cells can be selected at a time
+ */
+export type SelectionMode = 'none' | 'single' | 'multiple';
+
+/**
+ * Which way the cells are scrolling: `forward` towards the end, `backward`
+ * towards the start, or `none` before any scrolling
+ */
+export type ScrollDirection = 'forward' | 'backward' | 'none';
+
 export interface InfiniteScrollerInterface extends LitElement {
   /**
    * The number of cells to display. You may not have all the data for all the cells,
@@ -26,16 +386,51 @@ export interface InfiniteScrollerInterface extends LitElement {
    */
   itemCount: number;
 
+  /**
+   * Group the cells into sections with this many items each, with a sticky
+   * full-width header from `headerForSection(section)` before each non-empty
+   * section. The `itemCount` is set to the total when this changes.
+   *
+   * The cells keep their flat indices, see `indexPathForIndex()` and
+   * `indexForIndexPath()` to convert between the two. `insertItems()`,
+   * `removeItems()` and `moveItem()` update the counts of the sections they
+   * change. Virtualization doesn't apply to sectioned cells: every cell
+   * container is rendered even with `virtualizationEnabled` set.
+   */
+  sectionItemCounts?: number[];
+
   /**
    * The cell provider to provide cells for the scroller
    */
   cellProvider?: InfiniteScrollerCellProviderInterface;
 
+  /**
+   * An asynchronous data source to load the cells from, used instead of the
+   * `cellProvider` when set. Placeholders are shown until each page has loaded.
+   * The items far from the rendered cells are dropped once more than 20 pages
+   * are loaded, and fetched again when they're scrolled back to.
+   */
+  dataSource?: InfiniteScrollerDataSourceInterface;
+
+  /**
+   * The number of items the `dataSource` is asked for at a time
+   */
+  pageSize: number;
+
   /**
    * A placeholder cell to display before the data has loaded
    */
   placeholderCellTemplate?: TemplateResult;
 
+  /**
+   * A cell to display in place of cells that failed to load, or a function
+   * of the index and error returning one, eg. to include a retry button
+   * that calls `retryCell(index)`.
+   *
+   * Failed cells show the placeholder if this isn't set.
+   */
+  errorCellTemplate?: ErrorCellTemplate;
+
   /**
    * Disable scroll optimizations, such as lazy loading of cells
    * and removal when they're not on-screen.
@@ -47,287 +442,3918 @@ export interface InfiniteScrollerInterface extends LitElement {
   scrollOptimizationsDisabled: boolean;
 
   /**
-   * Reload the scroller
+   * How the cells are laid out. Switching layouts keeps the first visible cell in place.
    */
-  reload(): void;
+  layout: ScrollerLayout;
 
   /**
-   * Refreshes the content of the cell at the given index
-   * @param index Which cell to refresh content for
+   * The number of columns for the `fixed-grid` layout
    */
-  refreshCell(index: number): void;
+  fixedColumnCount: number;
 
   /**
-   * Refreshes the content of all cells within the rendered cell buffer range.
+   * The direction the cells scroll in. In the `horizontal` orientation, eg. for
+   * carousels, the cells are laid out in a single row and the scroller is its own
+   * scroll box, with the sentinels at the inline start and end. The `layout`
+   * and `virtualizationEnabled` only apply to the `vertical` orientation.
+   */
+  orientation: ScrollerOrientation;
+
+  /**
+   * The element the cells scroll within, if not the viewport, used to determine
+   * which cells are visible and when the sentinels are reached, and scrolled by
+   * `scrollToCell()`. Either an ancestor element, a selector for one, or `self`
+   * to make the scroller its own scroll box (in which case it needs a height).
    *
-   * Prefer this to the more expensive `reload()` when it is only necessary to
-   * propagate a state change in the rendered cell contents and there is no need
-   * for all cells to fully reload (as in the case of a major layout change).
+   * The `horizontal` orientation defaults to `self`.
    */
-  refreshAllVisibleCells(): void;
+  scrollContainer?: HTMLElement | string;
+
+  /**
+   * How many cells to render around the visible cells, and whether to adapt
+   * to the scroll velocity
+   */
+  bufferPolicy: BufferPolicy;
 
   /**
-   * Scroll to a cell index
+   * Only keep the cell containers in the buffer range in the DOM and stand in
+   * for the rest with spacers sized from the measured row height.
    *
-   * @param index number
-   * @param animated boolean
-   * @returns boolean if scroll was successful
+   * Without this, every index gets an (empty) cell container, which gets expensive
+   * for very large item counts. Has no effect when `scrollOptimizationsDisabled` or
+   * `sectionItemCounts` is set, or with the `masonry` layout, which has no rows.
    */
-  scrollToCell(index: number, animated: boolean): boolean;
+  virtualizationEnabled: boolean;
 
   /**
-   * Get the indices of the cells that are currently visible
+   * Keep the DOM of cells that leave the buffer in a pool, grouped by the
+   * provider's cell type, and re-render new cells into it instead of building
+   * their DOM from scratch. Useful for cells that are costly to create.
    */
-  getVisibleCellIndices(): number[];
-}
+  cellRecyclingEnabled: boolean;
 
-/**
- * When the user clicks on a cell, we emit selection details
- * including the index that was selected and the original event.
- *
- * The cell DOM element can be accessed via `originalEvent.target`
- */
-export type CellSelectionDetails = {
-  index: number;
-  originalEvent: Event;
-};
+  /**
+   * How many recycled cells of each type to keep in the pool at most
+   */
+  cellPoolSize: number;
 
-@customElement('infinite-scroller')
-export class InfiniteScroller
-  extends LitElement
-  implements InfiniteScrollerInterface
-{
-  /** @inheritdoc */
-  @property({ type: Number }) itemCount = 0;
+  /**
+   * How long a cell has to stay visible before a `cellImpression` event
+   * is emitted for it, in milliseconds. Each index makes one impression
+   * until the scroller is reloaded.
+   */
+  impressionDwellTime: number;
 
-  /** @inheritdoc */
-  @property({ type: Object })
-  cellProvider?: InfiniteScrollerCellProviderInterface;
+  /**
+   * Let users pull the cells down past the top, by touch or by scrolling up with
+   * the wheel, to emit a `refreshRequested` event. The refresh indicator shows
+   * until the event's `complete()` callback is called. Only applies vertically.
+   * The overscroll of a `scrollContainer` is contained so the browser's own
+   * pull-to-refresh doesn't kick in as well; when scrolling with the viewport,
+   * set `overscroll-behavior-y: contain` on the document yourself.
+   */
+  pullToRefreshEnabled: boolean;
 
-  /** @inheritdoc */
-  @property({ type: Object }) placeholderCellTemplate?: TemplateResult;
+  /**
+   * How many new items are waiting to be shown at the start. When above 0, a
+   * sticky "N new items" pill is shown that calls `showNewItems()` when clicked.
+   */
+  pendingNewItemCount: number;
 
-  /** @inheritdoc */
-  @property({ type: Boolean }) scrollOptimizationsDisabled = false;
+  /**
+   * Whether there are more items to load after the last one. When `false`,
+   * `scrollThresholdReached` is no longer emitted and the `end-footer` slot is
+   * shown after the cells, or the `empty-state` slot if there are no items.
+   */
+  hasMore: boolean;
 
-  /** The accessible label for the infinite scroller section landmark */
-  @property({ type: String }) ariaLandmarkLabel?: string;
+  /**
+   * Whether more items are being loaded. While `true`, `scrollThresholdReached`
+   * isn't emitted and the `loading-footer` slot is shown after the cells.
+   */
+  loading: boolean;
 
   /**
-   * The sentinel is our marker to know when we need to load more data
-   *
-   * @type {HTMLDivElement}
-   * @memberof InfiniteScroller
+   * Let users drag cells to new indices with the mouse or a pen, auto-scrolling near
+   * the edges of the viewport, or move the focused cell with Alt and the arrow,
+   * Home and End keys. Each move emits a cancelable `cellReorderRequested` event,
+   * after which the cell is moved with `moveItem()` unless the event was cancelled,
+   * so update the data in the listener.
    */
-  @query('#sentinel') private sentinel?: HTMLDivElement;
+  reorderEnabled: boolean;
 
-  @queryAll('.cell-container') private cellContainers!: HTMLDivElement[];
+  /**
+   * Record `performance` measures, prefixed with `infinite-scroller:`, of processing
+   * the visible cells and rendering and removing cells, and emit a `scrollerMetrics`
+   * event each time the visible cells have been processed. The cells are measured
+   * per batch, ie. all those rendered or removed in one pass, rather than per cell.
+   */
+  instrumentationEnabled: boolean;
 
-  private intersectionObserver: IntersectionObserver = new IntersectionObserver(
-    entries => {
-      entries.forEach(entry => {
-        // If we've reached the sentinel, emit a `scrollThresholdReached` event
-        // and move on to the next entry. This is when the consumer should start
-        // fetching more data.
-        if (entry.target === this.sentinel) {
-          if (entry.isIntersecting) {
-            this.dispatchEvent(new Event('scrollThresholdReached'));
-          }
-          return;
-        }
+  /**
+   * Outline each cell by its state: green when visible, blue when rendered in the
+   * buffer, orange when showing a placeholder and dashed grey once its content
+   * has been removed
+   */
+  debugOverlayEnabled: boolean;
 
-        // the rest of the entries are for individual tiles so
-        // build up a set of visible cells to be processed
-        const cellContainer = entry.target as HTMLDivElement;
-        const indexString = cellContainer.dataset.cellIndex;
-        if (!indexString) return;
-        const index = parseInt(indexString, 10);
-        if (entry.isIntersecting) {
-          this.visibleCellIndices.add(index);
-        } else {
-          this.visibleCellIndices.delete(index);
-        }
-      });
+  /**
+   * Show a scrubber along the side of the viewport for jumping through large
+   * item counts. Dragging it previews the index it's over, or its `labelForIndex()`,
+   * in a bubble, and letting go emits a `scrubRequested` event and scrolls
+   * straight to that index without rendering the cells in between.
+   * Only applies vertically.
+   */
+  scrubberEnabled: boolean;
 
-      // we only need to process visible cells if scroll optimizations are enabled
-      if (!this.scrollOptimizationsDisabled) {
-        this.processVisibleCells();
-      }
-    }
-  );
+  /**
+   * The index of the cell whose details are expanded in place, in a full-width
+   * panel from `detailForIndex(index)` after the last cell of its row. The panel
+   * moves to the end of the cell's new row when the column count changes. Set it
+   * to `undefined` to collapse the panel. Doesn't apply to the masonry layout or
+   * horizontally.
+   */
+  expandedIndex?: number;
 
-  /** @inheritdoc */
-  reload() {
-    const range = generateRange(0, Math.max(0, this.itemCount - 1), 1);
-    range.forEach(index => this.removeCell(index));
-    this.renderedCellIndices.clear();
-    this.visibleCellIndices.clear();
-    this.placeholderCellIndices.clear();
-    this.setupObservations();
-  }
+  /**
+   * When set, the scroll state is saved under this key when a cell is selected
+   * and restored when the scroller is first rendered, eg. so users land back
+   * where they were after navigating to a cell and back
+   */
+  scrollStateKey?: string;
 
-  /** @inheritdoc */
-  refreshCell(index: number): void {
-    this.removeCell(index);
-    if (this.bufferRange.includes(index)) {
-      this.renderCellBuffer([index]);
-    }
-  }
+  /**
+   * Where to save the scroll state under the `scrollStateKey`
+   */
+  scrollStateStorage: 'sessionStorage' | 'history';
 
-  /** @inheritdoc */
+  /**
+   * Reload the scroller, including clearing any items loaded from the `dataSource`
+   */
+  reload(): void;
+
+  /**
+   * Whether the scroller keeps track of selected cells, and how many:
+   * - `single`: clicking a cell or pressing Space on it selects it
+   * - `multiple`: additionally, Ctrl/Cmd-click and Space toggle a cell and
+   *   Shift-click selects the range from the last clicked cell
+   *
+   * Selected cells get `aria-selected="true"` and a `selectionChanged` event
+   * is emitted whenever the selection changes. Switching to `single` keeps only
+   * the last clicked cell if it's selected, or else the first selected one, and
+   * switching to `none` or calling `reload()` clears the selection.
+   */
+  selectionMode: SelectionMode;
+
+  /**
+   * Animate the rendered cells to their new positions when items are
+   * inserted, removed or moved
+   */
+  animateItemChanges: boolean;
+
+  /**
+   * Add items before the first item, eg. when loading earlier items after the
+   * `scrollThresholdReachedStart` event. The existing cells keep their content
+   * and move to their new indices, and the scroll position is adjusted so the
+   * visible cells don't move on screen. Throws while a view is applied.
+   *
+   * @param count How many items to add
+   */
+  prependItems(count: number): void;
+
+  /**
+   * Insert items at the given index. Like `prependItems()`, the existing cells
+   * keep their content and move to their new indices without moving on screen.
+   * Throws while a view is applied, since the new items have no place in it.
+   *
+   * @param index Where to insert the items
+   * @param count How many items to insert
+   */
+  insertItems(index: number, count: number): void;
+
+  /**
+   * Emit a `newItemsShown` event, when the new items should be added to the
+   * start of the data, then insert the `pendingNewItemCount` items at the
+   * start and scroll to them. The pill is hidden while a view is applied.
+   *
+   * @returns A promise that resolves once the first new item is in view, or
+   * rejects while a view is applied
+   */
+  showNewItems(): Promise<void>;
+
+  /**
+   * Remove items at the given index, moving the cells after them to their new indices
+   *
+   * @param index The index of the first item to remove
+   * @param count How many items to remove
+   */
+  removeItems(index: number, count: number): void;
+
+  /**
+   * Move an item to a new index, shifting the items in between
+   *
+   * @param from The index of the item to move
+   * @param to The index to move it to
+   */
+  moveItem(from: number, to: number): void;
+
+  /**
+   * Refreshes the content of the cell at the given index
+   * @param index Which cell to refresh content for
+   */
+  refreshCell(index: number): void;
+
+  /**
+   * Show the error cell for the given index instead of its content or placeholder
+   * and emit a `cellLoadFailed` event. Cells from the `dataSource` are marked
+   * as failed automatically when their page fails to load, with an event for
+   * each of the page's cells that are rendered.
+   *
+   * @param index Which cell failed to load
+   * @param error What went wrong, passed along to the `errorCellTemplate`
+   */
+  markCellFailed(index: number, error: unknown): void;
+
+  /**
+   * Clear the failure for the given index and render it again,
+   * fetching it from the `dataSource` again if there is one
+   *
+   * @param index Which cell to retry
+   */
+  retryCell(index: number): void;
+
+  /**
+   * Refreshes the content of all cells within the rendered cell buffer range.
+   *
+   * Prefer this to the more expensive `reload()` when it is only necessary to
+   * propagate a state change in the rendered cell contents and there is no need
+   * for all cells to fully reload (as in the case of a major layout change).
+   */
+  refreshAllVisibleCells(): void;
+
+  /**
+   * Scroll to a cell index, rendering it first if it isn't in the DOM and
+   * correcting the position while the cells around it render and shift the layout
+   *
+   * @param index The index of the cell, or its section and item
+   * @param options How to scroll to it, or whether to animate the scroll
+   * @returns A promise that resolves once the cell has settled in place, or rejects
+   *   with a `RangeError` if the index is outside of the `itemCount`
+   */
+  scrollToCell(
+    index: number | SectionIndexPath,
+    options?: boolean | ScrollToCellOptions
+  ): Promise<void>;
+
+  /**
+   * Get the indices of the cells that are currently visible
+   */
+  getVisibleCellIndices(): number[];
+
+  /**
+   * Get the section and item of a flat cell index when `sectionItemCounts` is set
+   */
+  indexPathForIndex(index: number): SectionIndexPath | undefined;
+
+  /**
+   * Get the flat cell index of a section and item when `sectionItemCounts` is set
+   */
+  indexForIndexPath(indexPath: SectionIndexPath): number | undefined;
+
+  /**
+   * Show a view of the items, eg. filtered or sorted, without reloading. The cell at
+   * each position renders the source item at that index of `viewIndices`, so
+   * `cellForIndex()` and the `dataSource` are called with source indices, and
+   * cells showing the same item as before keep their DOM and move to their new position.
+   *
+   * While a view is applied, `itemCount` is the number of cells in the view and the
+   * indices in events and methods are positions in the view; translate them with
+   * `sourceIndexForIndex()`. Removing and moving items changes the view, and
+   * inserting items throws until the view is cleared.
+   *
+   * @param viewIndices The source index to show at each position, or `undefined` to show them all in order.
+   * Out of range source indices are left out, and so are repeats of one that's already in the view.
+   * @param sourceItemCount How many source items there are, if it changed since the view was applied
+   */
+  setViewIndices(viewIndices?: number[], sourceItemCount?: number): void;
+
+  /**
+   * Get the index of the source item shown at the given position, which is
+   * the same index unless a view is applied with `setViewIndices()`
+   */
+  sourceIndexForIndex(index: number): number;
+
+  /**
+   * Get the position of the given source item, or `undefined` if it isn't in the view
+   */
+  indexForSourceIndex(sourceIndex: number): number | undefined;
+
+  /**
+   * Get the selected indices in ascending order
+   */
+  getSelectedIndices(): number[];
+
+  /**
+   * Select every cell, including the ones that aren't rendered, in `multiple` selection mode
+   */
+  selectAll(): void;
+
+  /**
+   * Deselect every cell
+   */
+  clearSelection(): void;
+
+  /**
+   * Get a snapshot of the current scroll position
+   */
+  getScrollState(): ScrollState;
+
+  /**
+   * Re-create the layout of a snapshot from `getScrollState()` and scroll
+   * to the same position
+   *
+   * @param scrollState The snapshot to restore
+   * @returns A promise that resolves once the position has settled
+   */
+  restoreScrollState(scrollState: ScrollState): Promise<void>;
+
+  /**
+   * Save the current scroll state under the `scrollStateKey`
+   */
+  saveScrollState(): void;
+
+  /**
+   * Get how many cells were rendered into recycled DOM and how many missed the pool
+   */
+  getCellPoolMetrics(): CellPoolMetrics;
+}
+
+/**
+ * When the user clicks on a cell, we emit selection details
+ * including the index that was selected and the original event.
+ *
+ * The cell DOM element can be accessed via `originalEvent.target`
+ */
+export type CellSelectionDetails = {
+  index: number;
+  /** The section and item of the cell when `sectionItemCounts` is set */
+  indexPath?: SectionIndexPath;
+  originalEvent: Event;
+};
+
+/**
+ * When the visible cells change, we emit their indices
+ */
+export type VisibleCellsChangedDetails = {
+  /** The indices of the visible cells, in ascending order */
+  visibleCellIndices: number[];
+  /** The indices of the cells that are entirely within the viewport, in ascending order */
+  fullyVisibleCellIndices: number[];
+  /** The first visible index, if any cells are visible */
+  firstVisibleIndex?: number;
+  /** The last visible index, if any cells are visible */
+  lastVisibleIndex?: number;
+  /**
+   * How much of each visible cell was within the viewport, from 0 to 1, keyed by index,
+   * as of when it last entered the viewport or started or stopped being fully visible
+   */
+  intersectionRatios: Record<number, number>;
+  /** Which way the cells were last scrolled */
+  scrollDirection: ScrollDirection;
+  /** The sections and items of the visible cells when `sectionItemCounts` is set */
+  visibleIndexPaths?: SectionIndexPath[];
+  /** Whether the detail panel of the `expandedIndex` is in the viewport */
+  expandedDetailVisible: boolean;
+};
+
+/**
+ * Once the scrolling has stopped, we emit where it stopped
+ */
+export type ScrollSettledDetails = {
+  /** The first visible index, if any cells are visible */
+  firstVisibleIndex?: number;
+  /** The last visible index, if any cells are visible */
+  lastVisibleIndex?: number;
+  /** Which way the cells were scrolled before settling */
+  scrollDirection: ScrollDirection;
+};
+
+/**
+ * When a cell has stayed visible for the `impressionDwellTime`, we emit its index
+ */
+export type CellImpressionDetails = {
+  index: number;
+  /** The section and item of the cell when `sectionItemCounts` is set */
+  indexPath?: SectionIndexPath;
+};
+
+/**
+ * When the selection changes, we emit all of the selected indices
+ * in ascending order, whether or not their cells are rendered
+ */
+export type SelectionChangedDetails = {
+  selectedIndices: number[];
+};
+
+/**
+ * When a cell fails to load, we emit the index and the error
+ */
+export type CellLoadFailedDetails = {
+  index: number;
+  error: unknown;
+};
+
+/**
+ * When the cells are pulled down to refresh, we emit a callback
+ * to call once the refresh is done
+ */
+export type RefreshRequestedDetails = {
+  complete: () => void;
+};
+
+/**
+ * When the new items pill is clicked, we emit how many new items are
+ * about to be inserted at the start
+ */
+export type NewItemsShownDetails = {
+  count: number;
+};
+
+/**
+ * When a cell is dragged to a new index, we emit where from and where to.
+ * Cancel the event to keep the cell where it was.
+ */
+export type CellReorderDetails = {
+  from: number;
+  to: number;
+};
+
+/**
+ * When the scrubber is let go, we emit the index it's about to jump to. Cancel the
+ * event to stay put, or pass a promise to `waitUntil()`, eg. loading the target
+ * page, to jump once it has settled.
+ */
+export type ScrubRequestedDetails = {
+  index: number;
+  /** The section and item of the index when `sectionItemCounts` is set */
+  indexPath?: SectionIndexPath;
+  waitUntil: (promise: Promise<unknown>) => void;
+};
+
+/**
+ * When instrumentation is enabled, we emit how many cells are in each state
+ * and what the scroller did since the last `scrollerMetrics` event
+ */
+export type ScrollerMetricsDetails = InstrumentationCounts & {
+  /** How many cells have their content rendered */
+  renderedCellCount: number;
+  /** How many cells show a placeholder while their content loads */
+  placeholderCellCount: number;
+  /** How many cells are in the viewport */
+  visibleCellCount: number;
+};
+
+/**
+ * The events the scroller emits, by name
+ */
+export type InfiniteScrollerEventMap = {
+  scrollThresholdReached: Event;
+  scrollThresholdReachedStart: Event;
+  cellSelected: CustomEvent<CellSelectionDetails>;
+  visibleCellsChanged: CustomEvent<VisibleCellsChangedDetails>;
+  cellLoadFailed: CustomEvent<CellLoadFailedDetails>;
+  selectionChanged: CustomEvent<SelectionChangedDetails>;
+  scrollSettled: CustomEvent<ScrollSettledDetails>;
+  cellImpression: CustomEvent<CellImpressionDetails>;
+  refreshRequested: CustomEvent<RefreshRequestedDetails>;
+  newItemsShown: CustomEvent<NewItemsShownDetails>;
+  cellReorderRequested: CustomEvent<CellReorderDetails>;
+  scrollerMetrics: CustomEvent<ScrollerMetricsDetails>;
+  scrubRequested: CustomEvent<ScrubRequestedDetails>;
+};
+
+@customElement('infinite-scroller')
+export class InfiniteScroller
+  extends LitElement
+  implements InfiniteScrollerInterface
+{
+  /** @inheritdoc */
+  @property({ type: Number }) itemCount = 0;
+
+  /** @inheritdoc */
+  @property({ type: Array }) sectionItemCounts?: number[];
+
+  /** @inheritdoc */
+  @property({ type: Object })
+  cellProvider?: InfiniteScrollerCellProviderInterface;
+
+  /** @inheritdoc */
+  @property({ type: Object }) dataSource?: InfiniteScrollerDataSourceInterface;
+
+  /** @inheritdoc */
+  @property({ type: Number }) pageSize = 50;
+
+  /** @inheritdoc */
+  @property({ type: Object }) placeholderCellTemplate?: TemplateResult;
+
+  /** @inheritdoc */
+  @property({ type: Object }) errorCellTemplate?: ErrorCellTemplate;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) scrollOptimizationsDisabled = false;
+
+  /** @inheritdoc */
+  @property({ type: String, reflect: true }) layout: ScrollerLayout = 'grid';
+
+  /** @inheritdoc */
+  @property({ type: Number }) fixedColumnCount = 3;
+
+  /** @inheritdoc */
+  @property({ type: String, reflect: true })
+  orientation: ScrollerOrientation = 'vertical';
+
+  /** @inheritdoc */
+  @property({
+    reflect: true,
+    // only reflect selectors, not elements, so `self` can be styled
+    converter: {
+      toAttribute: (value: unknown) =>
+        typeof value === 'string' ? value : null,
+    },
+  })
+  scrollContainer?: HTMLElement | string;
+
+  /** @inheritdoc */
+  @property({ type: Object }) bufferPolicy: BufferPolicy = {};
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) virtualizationEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) cellRecyclingEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Number }) cellPoolSize = 20;
+
+  /** @inheritdoc */
+  @property({ type: Number }) impressionDwellTime = 1000;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) pullToRefreshEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Number }) pendingNewItemCount = 0;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) hasMore = true;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) loading = false;
+
+  /** @inheritdoc */
+  @property({ type: Boolean, reflect: true }) reorderEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) instrumentationEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Boolean, reflect: true }) debugOverlayEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) scrubberEnabled = false;
+
+  /** @inheritdoc */
+  @property({ type: Number }) expandedIndex?: number;
+
+  /** @inheritdoc */
+  @property({ type: String }) selectionMode: SelectionMode = 'none';
+
+  /** @inheritdoc */
+  @property({ type: Boolean }) animateItemChanges = false;
+
+  /** @inheritdoc */
+  @property({ type: String }) scrollStateKey?: string;
+
+  /** @inheritdoc */
+  @property({ type: String }) scrollStateStorage: 'sessionStorage' | 'history' =
+    'sessionStorage';
+
+  /** The accessible label for the infinite scroller section landmark */
+  @property({ type: String }) ariaLandmarkLabel?: string;
+
+  /**
+   * The sentinel is our marker to know when we need to load more data
+   *
+   * @type {HTMLDivElement}
+   * @memberof InfiniteScroller
+   */
+  @query('#sentinel') private sentinel?: HTMLDivElement;
+
+  /**
+   * The start sentinel is our marker to know when we need to load earlier data
+   *
+   * @type {HTMLDivElement}
+   * @memberof InfiniteScroller
+   */
+  @query('#start-sentinel') private startSentinel?: HTMLDivElement;
+
+  @query('#container') private container?: HTMLElement;
+
+  @query('#scrubber') private scrubber?: HTMLElement;
+
+  @query('#detail-panel') private detailPanel?: HTMLElement;
+
+  /**
+   * The detail panel the intersection observer is observing
+   */
+  private observedDetailPanel?: HTMLElement;
+
+  /**
+   * Whether the detail panel is in the viewport
+   */
+  private detailPanelVisible = false;
+
+  /**
+   * The height of the detail panel and the row gap after it when it was last rendered,
+   * for the spacer standing in for it when its row is outside the window. It's
+   * unknown until the panel of the `expandedIndex` has rendered.
+   */
+  private detailPanelSize?: number;
+
+  @query('#scrubber-thumb') private scrubberThumb?: HTMLElement;
+
+  @query('#scrubber-bubble') private scrubberBubble?: HTMLElement;
+
+  @query('#refresh-indicator') private refreshIndicator?: HTMLElement;
+
+  @query('#refresh-label') private refreshLabel?: HTMLElement;
+
+  @queryAll('.cell-container') private cellContainers!: HTMLDivElement[];
+
+  @queryAll('.section-header') private sectionHeaders!: HTMLDivElement[];
+
+  /**
+   * Maps between flat indices and sections when `sectionItemCounts` is set
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private sectionIndex?: SectionIndex;
+
+  /**
+   * The range of cell indices that have a cell container in the DOM
+   * when virtualization is enabled
+   */
+  @state() private cellWindow: CellWindow = {
+    start: 0,
+    end: minimumCellBufferSize * 2 - 1,
+  };
+
+  /**
+   * How far the cells are pulled down to refresh, in pixels. It isn't reactive,
+   * so pulling sizes the indicator without rendering the scroller again.
+   */
+  private pullDistance = 0;
+
+  /**
+   * Whether a refresh was requested and hasn't completed yet
+   */
+  @state() private refreshing = false;
+
+  /**
+   * The index the scrubber is being dragged over. It isn't reactive, so
+   * dragging moves the thumb and bubble without rendering the scroller again.
+   */
+  private scrubIndex?: number;
+
+  /**
+   * How tall the scrubber's track is, matching the viewport
+   */
+  @state() private scrubberLength = 0;
+
+  /**
+   * Measures and counts the scroller's work when instrumentation is enabled
+   */
+  private instrumentation?: ScrollerInstrumentation;
+
+  /**
+   * The cell being dragged to reorder it
+   */
+  private cellDrag?: CellDrag;
+
+  /**
+   * The line showing where the dragged cell would be dropped. It's moved
+   * directly, so dragging doesn't render the scroller on every pointermove.
+   */
+  @query('#drop-indicator') private dropIndicator?: HTMLElement;
+
+  /**
+   * The pending animation frame for auto-scrolling while dragging
+   */
+  private autoScrollFrame?: number;
+
+  /**
+   * Whether to ignore the click that follows dropping a dragged cell
+   */
+  private suppressCellClick = false;
+
+  /**
+   * Follows the touches and wheel events pulling the cells down to refresh
+   */
+  private pullGesture = new PullToRefreshGesture(pullToRefreshThreshold);
+
+  /**
+   * The number of cells per row, measured from the rendered cell containers
+   * when virtualized or from the grid otherwise, and again whenever they resize
+   */
+  private columnCount = 1;
+
+  /**
+   * The index of the cell that is in the tab order (roving tabindex),
+   * which follows the focus as it moves between cells. The tabindex is
+   * updated directly when it changes so the cells don't re-render.
+   */
+  private activeCellIndex = 0;
+
+  /**
+   * The first visible cell and its position on screen before the layout
+   * changed, to keep it in place in the new layout
+   */
+  private layoutAnchor?: ScrollAnchor;
+
+  /**
+   * Observes the size of the cell containers in the `masonry` layout
+   * so they can span the right number of grid rows
+   */
+  private masonryResizeObserver?: ResizeObserver;
+
+  /**
+   * The index of a focused cell whose container was removed from the DOM
+   * when the window moved, to focus again once it's rendered again
+   */
+  private pendingFocusIndex?: number;
+
+  /**
+   * The height of a row including the row gap, measured from the rendered
+   * cell containers and used to size the spacers for unrendered rows
+   */
+  @state() private rowStride = 0;
+
+  /**
+   * The row gap of the container, used to subtract the gap the grid
+   * adds after each spacer
+   */
+  private rowGap = 0;
+
+  /**
+   * The pending animation frame for a window update after a scroll or resize
+   */
+  private cellWindowFrame?: number;
+
+  /**
+   * The pending animation frame for measuring the column count after the cells resized
+   */
+  private columnCountFrame?: number;
+
+  /**
+   * The items loaded from the `dataSource`
+   */
+  private itemCache?: ItemPageCache<unknown>;
+
+  /**
+   * The source index shown at each position, when a view is applied
+   */
+  private viewIndices?: number[];
+
+  /**
+   * The position of each source index in the view
+   */
+  private viewPositions = new Map<number, number>();
+
+  /**
+   * How many source items there are while a view is applied
+   */
+  private sourceItemCount = 0;
+
+  /**
+   * Handles the sentinels and cells entering and leaving the scroll root
+   */
+  private handleIntersection: ConstructorParameters<
+    typeof IntersectionObserver
+  >[0] = entries => {
+    entries.forEach(entry => {
+      // If we've reached the sentinel, emit a `scrollThresholdReached` event
+      // and move on to the next entry. This is when the consumer should start
+      // fetching more data.
+      if (entry.target === this.sentinel) {
+        if (this.sentinelEntered(entry) && this.hasMore && !this.loading) {
+          this.dispatchEvent(new Event('scrollThresholdReached'));
+        }
+        return;
+      }
+
+      // likewise for the start sentinel, when the consumer should start
+      // fetching earlier data to prepend
+      if (entry.target === this.startSentinel) {
+        if (this.sentinelEntered(entry)) {
+          this.dispatchEvent(new Event('scrollThresholdReachedStart'));
+        }
+        return;
+      }
+
+      if (entry.target === this.detailPanel) {
+        this.detailPanelVisible = entry.isIntersecting;
+        return;
+      }
+
+      // the rest of the entries are for individual tiles so
+      // build up a set of visible cells to be processed
+      const cellContainer = entry.target as HTMLDivElement;
+      const indexString = cellContainer.dataset.cellIndex;
+      if (!indexString) return;
+      const index = parseInt(indexString, 10);
+      if (entry.isIntersecting) {
+        this.visibleCellIndices.add(index);
+        this.visibleCellRatios.set(index, entry.intersectionRatio);
+        this.impressions.indexVisible(index);
+      } else {
+        this.visibleCellIndices.delete(index);
+        this.visibleCellRatios.delete(index);
+        this.impressions.indexHidden(index);
+      }
+    });
+
+    // we only need to process visible cells if scroll optimizations are enabled
+    if (!this.scrollOptimizationsDisabled) {
+      this.processVisibleCells();
+    }
+  };
+
+  /**
+   * The sentinels that are currently intersecting, so crossing the other
+   * intersection thresholds doesn't emit their events again
+   */
+  private intersectingSentinels = new Set<Element>();
+
+  /**
+   * Observe the sentinel afresh, so it reports being in view again
+   */
+  private reobserveSentinel() {
+    const { sentinel, intersectionObserver } = this;
+    if (!sentinel || !intersectionObserver) return;
+    intersectionObserver.unobserve(sentinel);
+    this.intersectingSentinels.delete(sentinel);
+    intersectionObserver.observe(sentinel);
+  }
+
+  /**
+   * Whether a sentinel entry is for the sentinel coming into view
+   */
+  private sentinelEntered(entry: { target: Element; isIntersecting: boolean }) {
+    if (!entry.isIntersecting) {
+      this.intersectingSentinels.delete(entry.target);
+      return false;
+    }
+    if (this.intersectingSentinels.has(entry.target)) return false;
+    this.intersectingSentinels.add(entry.target);
+    return true;
+  }
+
+  /**
+   * The element the cells scroll within, or `null` for the viewport
+   */
+  private scrollRoot: HTMLElement | null = null;
+
+  /**
+   * The element whose overscroll is contained while pull-to-refresh is on
+   */
+  private overscrollContainedElement?: HTMLElement;
+
+  /**
+   * Where the scroll events come from, either the scroll root or the window
+   */
+  private scrollEventTarget?: HTMLElement | Window;
+
+  /**
+   * Tracks the scroll velocity for the velocity adaptive buffer policy
+   */
+  private scrollVelocity = new ScrollVelocityTracker();
+
+  /**
+   * Fires once the scrolling has settled
+   */
+  private scrollSettleTimer?: number;
+
+  /**
+   * Whether the cells are scrolling by too fast to be worth rendering,
+   * so only placeholders are rendered until the scrolling settles
+   */
+  private flinging = false;
+
+  /**
+   * The last scroll position, to tell which way the cells are scrolling
+   */
+  private lastScrollPosition?: number;
+
+  /**
+   * Which way the cells were last scrolled
+   */
+  private scrollDirection: ScrollDirection = 'none';
+
+  /**
+   * How much of each visible cell is within the viewport, keyed by index
+   */
+  private visibleCellRatios = new Map<number, number>();
+
+  /**
+   * Emits a `cellImpression` once cells have been visible for long enough
+   */
+  private impressions = new ImpressionTracker(
+    this.impressionDwellTime,
+    index => {
+      const event = new CustomEvent<CellImpressionDetails>('cellImpression', {
+        detail: { index, indexPath: this.indexPathForIndex(index) },
+      });
+      this.dispatchEvent(event);
+    }
+  );
+
+  /**
+   * Created along with the scroll root since it needs to observe within it,
+   * and only in the browser
+   */
+  private intersectionObserver?: IntersectionObserver;
+
+  /**
+   * Whether the scroller's DOM was rendered on the server, or is being, with
+   * the first cells inlined so the client hydrates them instead of rendering
+   * them again. Hydrated elements already have their shadow root when created.
+   */
+  private serverRendered = isServer || !!this.shadowRoot;
+
+  /**
+   * The cells inlined in the server-rendered DOM that haven't been
+   * replaced by cells rendered on the client yet
+   */
+  private prerenderedCellIndices = new Set<number>();
+
+  /** @inheritdoc */
+  reload() {
+    const { start, end } = this.materializedWindow;
+    const range = generateRange(start, Math.max(start, end), 1);
+    range.forEach(index => this.removeCell(index));
+    this.renderedCellIndices.clear();
+    this.visibleCellIndices.clear();
+    this.visibleCellRatios.clear();
+    this.impressions.clear();
+    this.placeholderCellIndices.clear();
+    this.failedCellErrors.clear();
+    this.cellSizes.clear();
+    this.itemCache?.clear();
+    // the selected indices may point at different items after reloading
+    this.selectionUpdated(this.selection.clear());
+    this.setupObservations();
+  }
+
+  /** @inheritdoc */
+  prependItems(count: number): void {
+    this.rejectInsertionIntoView('prependItems');
+    this.insertItems(0, count);
+  }
+
+  /** @inheritdoc */
+  insertItems(index: number, count: number): void {
+    this.rejectInsertionIntoView('insertItems');
+    if (count <= 0 || index < 0 || index > this.itemCount) return;
+    if (this.sectionIndex) {
+      this.sectionItemCounts = this.sectionIndex.itemCountsAfterInsertion(
+        index,
+        count
+      );
+    }
+    this.changeItems(insertionMapping(index, count), this.itemCount + count);
+  }
+
+  /** @inheritdoc */
+  async showNewItems(): Promise<void> {
+    this.rejectInsertionIntoView('showNewItems');
+    const count = this.pendingNewItemCount;
+    if (count <= 0) return;
+    this.pendingNewItemCount = 0;
+    const event = new CustomEvent<NewItemsShownDetails>('newItemsShown', {
+      detail: { count },
+    });
+    this.dispatchEvent(event);
+    this.insertItems(0, count);
+    await this.updateComplete;
+    await this.scrollToCell(0, { behavior: 'smooth' });
+  }
+
+  /**
+   * Throw if a view is applied, since the inserted items would have no
+   * source indices in it
+   */
+  private rejectInsertionIntoView(methodName: string) {
+    if (!this.viewIndices) return;
+    throw new Error(
+      `${methodName}() isn't supported while a view is applied, clear it with setViewIndices() first`
+    );
+  }
+
+  /** @inheritdoc */
+  removeItems(index: number, count: number): void {
+    const removedCount = Math.min(count, this.itemCount - index);
+    if (removedCount <= 0 || index < 0) return;
+    if (this.sectionIndex) {
+      this.sectionItemCounts = this.sectionIndex.itemCountsAfterRemoval(
+        index,
+        removedCount
+      );
+    }
+    this.changeItems(
+      removalMapping(index, removedCount),
+      this.itemCount - removedCount
+    );
+  }
+
+  /** @inheritdoc */
+  moveItem(from: number, to: number): void {
+    const lastIndex = this.itemCount - 1;
+    if (from === to || Math.min(from, to) < 0 || Math.max(from, to) > lastIndex)
+      return;
+    if (this.sectionIndex) {
+      this.sectionItemCounts = this.sectionIndex.itemCountsAfterMove(from, to);
+    }
+    this.changeItems(
+      moveMapping(from, to),
+      this.itemCount,
+      index => index !== from
+    );
+  }
+
+  /** @inheritdoc */
+  refreshCell(index: number): void {
+    this.removeCell(index);
+    if (this.bufferRange.includes(index)) {
+      this.renderCellBuffer([index]);
+    }
+  }
+
+  /** @inheritdoc */
+  markCellFailed(index: number, error: unknown): void {
+    this.failedCellErrors.set(index, error);
+    this.refreshCell(index);
+    this.emitCellLoadFailed(index, error);
+  }
+
+  /** @inheritdoc */
+  retryCell(index: number): void {
+    if (!this.failedCellErrors.delete(index)) return;
+    this.refreshCell(index);
+    this.loadBufferItems();
+  }
+
+  /** @inheritdoc */
   refreshAllVisibleCells(): void {
     this.bufferRange.forEach(index => this.removeCell(index));
     this.renderCellBuffer(this.bufferRange);
   }
 
-  /** @inheritdoc */
-  scrollToCell(index: number, animated: boolean): boolean {
-    const cellContainer = this.cellContainers[index];
-    if (!cellContainer) return false;
-    const behavior = animated ? 'smooth' : 'auto';
-    cellContainer.scrollIntoView({ behavior });
+  /** @inheritdoc */
+  async scrollToCell(
+    cellIndex: number | SectionIndexPath,
+    options: boolean | ScrollToCellOptions = {}
+  ): Promise<void> {
+    const {
+      behavior = 'auto',
+      block = 'start',
+      offset = 0,
+    } = typeof options === 'boolean'
+      ? { behavior: options ? ('smooth' as const) : ('auto' as const) }
+      : options;
+    await this.updateComplete;
+    const index =
+      typeof cellIndex === 'number'
+        ? cellIndex
+        : this.indexForIndexPath(cellIndex);
+    if (
+      index === undefined ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= this.itemCount
+    ) {
+      throw new RangeError(
+        `Cell ${JSON.stringify(cellIndex)} is outside of the item count ${
+          this.itemCount
+        }`
+      );
+    }
+
+    await this.alignCell(index, { behavior, block, offset }, 0);
+  }
+
+  /**
+   * Scroll a cell to its alignment. The cells around it change size as they
+   * render, so keep correcting once the scrolling settles until it stays put.
+   *
+   * @param pass How many times the position was corrected already
+   */
+  private async alignCell(
+    index: number,
+    { behavior, block, offset }: Required<ScrollToCellOptions>,
+    pass: number
+  ): Promise<void> {
+    if (pass >= scrollToCellMaxPasses) return;
+    // when virtualized, the cell may not be in the DOM yet so move the
+    // window over to it and scroll once its container has been rendered
+    if (!this.cellContainerForIndex(index) && this.virtualizationActive) {
+      this.cellWindow = this.windowAroundIndices(index, index);
+      await this.updateComplete;
+    }
+    const cellContainer = this.cellContainerForIndex(index);
+    if (!cellContainer) return;
+    const delta = this.alignmentDelta(cellContainer, block, offset);
+    if (Math.abs(delta) < 1) return;
+    // only animate the first pass, the corrections should be instant
+    this.scrollViewportBy(delta, pass === 0 ? behavior : 'auto');
+    await this.scrollSettledPromise();
+    await this.alignCell(index, { behavior, block, offset }, pass + 1);
+  }
+
+  /** @inheritdoc */
+  getVisibleCellIndices(): number[] {
+    // after a large jump, the intersection observer may not have reported
+    // the newly rendered cells yet so fall back to the estimated visible cells
+    if (this.virtualizationActive && this.visibleCellIndices.size === 0) {
+      const { start, end } = this.estimatedVisibleRange();
+      return generateRange(start, end, 1);
+    }
+    return Array.from(this.visibleCellIndices);
+  }
+
+  /** @inheritdoc */
+  indexPathForIndex(index: number): SectionIndexPath | undefined {
+    return this.sectionIndex?.indexPathForIndex(index);
+  }
+
+  /** @inheritdoc */
+  indexForIndexPath(indexPath: SectionIndexPath): number | undefined {
+    return this.sectionIndex?.indexForIndexPath(indexPath);
+  }
+
+  /** @inheritdoc */
+  setViewIndices(viewIndices?: number[], sourceItemCount?: number): void {
+    const previousViewIndices = this.viewIndices;
+    if (!previousViewIndices) this.sourceItemCount = this.itemCount;
+    if (sourceItemCount !== undefined) this.sourceItemCount = sourceItemCount;
+    // each source item has a single position for its cell to move to
+    const shownSourceIndices = new Set<number>();
+    const newViewIndices = viewIndices?.filter(sourceIndex => {
+      if (sourceIndex < 0 || sourceIndex >= this.sourceItemCount) return false;
+      if (shownSourceIndices.has(sourceIndex)) return false;
+      shownSourceIndices.add(sourceIndex);
+      return true;
+    });
+
+    // the cells move to wherever their source item is in the new view
+    const mapping: IndexMapping = index => {
+      const sourceIndex = previousViewIndices
+        ? previousViewIndices[index]
+        : index;
+      if (sourceIndex === undefined) return undefined;
+      if (newViewIndices) return this.viewPositions.get(sourceIndex);
+      return sourceIndex < this.sourceItemCount ? sourceIndex : undefined;
+    };
+    this.applyViewIndices(newViewIndices);
+    this.changeItems(
+      mapping,
+      newViewIndices?.length ?? this.sourceItemCount,
+      undefined,
+      true
+    );
+  }
+
+  /** @inheritdoc */
+  sourceIndexForIndex(index: number): number {
+    return this.viewIndices?.[index] ?? index;
+  }
+
+  /** @inheritdoc */
+  indexForSourceIndex(sourceIndex: number): number | undefined {
+    if (this.viewIndices) return this.viewPositions.get(sourceIndex);
+    return sourceIndex >= 0 && sourceIndex < this.itemCount
+      ? sourceIndex
+      : undefined;
+  }
+
+  /** @inheritdoc */
+  getCellPoolMetrics(): CellPoolMetrics {
+    return this.cellPool.metrics;
+  }
+
+  /** @inheritdoc */
+  getSelectedIndices(): number[] {
+    return this.selection.indices.filter(index => index < this.itemCount);
+  }
+
+  /** @inheritdoc */
+  selectAll(): void {
+    if (this.selectionMode !== 'multiple') return;
+    this.selectionUpdated(this.selection.selectAll(this.itemCount));
+  }
+
+  /** @inheritdoc */
+  clearSelection(): void {
+    this.selectionUpdated(this.selection.clear());
+  }
+
+  /** @inheritdoc */
+  getScrollState(): ScrollState {
+    const visibleIndices = this.getVisibleCellIndices();
+    const firstVisibleIndex = visibleIndices.length
+      ? Math.min(...visibleIndices)
+      : 0;
+    const firstVisibleCell = this.cellContainerForIndex(firstVisibleIndex);
+    const offset = firstVisibleCell
+      ? this.viewportBounds.start - this.leadingEdge(firstVisibleCell)
+      : 0;
+
+    const cellSizes: Record<number, number> = {};
+    this.renderedCellIndices.forEach(index => {
+      const cellContainer = this.cellContainerForIndex(index);
+      if (cellContainer) cellSizes[index] = this.sizeAlongAxis(cellContainer);
+    });
+
+    return {
+      firstVisibleIndex,
+      offset,
+      itemCount: this.itemCount,
+      cellSizes,
+    };
+  }
+
+  /** @inheritdoc */
+  async restoreScrollState(savedState: ScrollState): Promise<void> {
+    const scrollState = parseScrollState(savedState);
+    if (!scrollState) return;
+    this.itemCount = scrollState.itemCount;
+    if (this.virtualizationActive) {
+      this.cellWindow = this.windowAroundIndices(
+        scrollState.firstVisibleIndex,
+        scrollState.firstVisibleIndex
+      );
+    }
+    await this.updateComplete;
+    this.pinCellSizes(scrollState.cellSizes);
+    await this.scrollToScrollState(scrollState, scrollStateMaxPasses);
+  }
+
+  /** @inheritdoc */
+  saveScrollState(): void {
+    const { scrollStateKey } = this;
+    if (!scrollStateKey) return;
+    const scrollState = this.getScrollState();
+    // the storage can be unavailable or full, eg. in private browsing or
+    // sandboxed iframes, which just leaves the state unsaved
+    try {
+      if (this.scrollStateStorage === 'history') {
+        const historyState = {
+          ...window.history.state,
+          [scrollStateKey]: scrollState,
+        };
+        window.history.replaceState(historyState, '');
+      } else {
+        window.sessionStorage.setItem(
+          scrollStateKey,
+          JSON.stringify(scrollState)
+        );
+      }
+    } catch {
+      // leave the previously saved state, if any
+    }
+  }
+
+  /**
+   * Types the listeners of the scroller's events by name, eg. `cellSelected`
+   */
+  addEventListener<K extends keyof InfiniteScrollerEventMap>(
+    type: K,
+    listener: (
+      this: InfiniteScroller,
+      event: InfiniteScrollerEventMap[K]
+    ) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+
+  addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (
+      this: InfiniteScroller,
+      event: HTMLElementEventMap[K]
+    ) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof InfiniteScrollerEventMap>(
+    type: K,
+    listener: (
+      this: InfiniteScroller,
+      event: InfiniteScrollerEventMap[K]
+    ) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+
+  removeEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (
+      this: InfiniteScroller,
+      event: HTMLElementEventMap[K]
+    ) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void {
+    super.removeEventListener(type, listener, options);
+  }
+
+  firstUpdated() {
+    if (this.serverRendered) this.adoptPrerenderedCells();
+    const savedState = this.savedScrollState();
+    // failing to restore the position just leaves the scroller at the top
+    if (savedState) this.restoreScrollState(savedState).catch(() => undefined);
+  }
+
+  connectedCallback() {
+    // eslint-disable-next-line wc/guard-super-call
+    super.connectedCallback();
+    window.addEventListener('resize', this.scheduleCellWindowUpdate);
+    window.addEventListener('resize', this.measureScrubber);
+    this.addEventListener('touchstart', this.handleTouchStart, {
+      passive: true,
+    });
+    this.addEventListener('touchmove', this.handleTouchMove, { passive: true });
+    this.addEventListener('touchend', this.handleTouchEnd);
+    this.addEventListener('touchcancel', this.handleTouchEnd);
+    this.addEventListener('wheel', this.handleWheel, { passive: true });
+
+    // the observations are stopped on disconnect so start them again
+    // if the scroller is moved somewhere else in the DOM
+    if (this.hasUpdated) {
+      this.setupScrollRoot();
+      this.updateOverscrollBehavior();
+      this.observeScrubberTrack();
+      this.setupObservations();
+    }
+  }
+
+  willUpdate(changed: PropertyValues) {
+    // the size of the previous detail panel doesn't tell anything about the new one
+    if (changed.has('expandedIndex')) this.detailPanelSize = undefined;
+
+    if (changed.has('selectionMode')) {
+      if (this.selectionMode === 'none') {
+        this.selectionUpdated(this.selection.clear());
+      } else if (this.selectionMode === 'single') {
+        this.selectionUpdated(this.selection.keepOne());
+      }
+    }
+
+    if (changed.has('sectionItemCounts')) {
+      const { sectionItemCounts } = this;
+      this.sectionIndex = sectionItemCounts
+        ? new SectionIndex(sectionItemCounts)
+        : undefined;
+      if (this.sectionIndex) this.itemCount = this.sectionIndex.itemCount;
+    }
+
+    // decide which cells to inline before the first render, on the server
+    // and again on the client so the hydrated DOM matches, once the
+    // sections have set the item count
+    if (!this.hasUpdated && this.serverRendered) {
+      this.prerenderedCellIndices = new Set(this.initialCellIndices);
+    }
+
+    if (
+      this.hasUpdated &&
+      (changed.has('layout') || changed.has('fixedColumnCount'))
+    ) {
+      this.layoutAnchor = this.scrollAnchor();
+    }
+
+    // remember the focused cell if the window is about to remove it from the DOM
+    if (changed.has('cellWindow') && this.virtualizationActive) {
+      const focusedIndex = this.focusedCellIndex;
+      const { start, end } = this.materializedWindow;
+      if (
+        focusedIndex !== undefined &&
+        (focusedIndex < start || focusedIndex > end)
+      ) {
+        this.pendingFocusIndex = focusedIndex;
+      }
+    }
+  }
+
+  updated(changed: PropertyValues) {
+    if (
+      !this.scrollEventTarget ||
+      changed.has('scrollContainer') ||
+      changed.has('orientation')
+    ) {
+      this.setupScrollRoot();
+    }
+
+    if (
+      changed.has('pullToRefreshEnabled') ||
+      changed.has('scrollContainer') ||
+      changed.has('orientation')
+    ) {
+      this.updateOverscrollBehavior();
+    }
+    if (
+      changed.has('refreshing') ||
+      changed.has('pullToRefreshEnabled') ||
+      changed.has('orientation')
+    ) {
+      this.updateRefreshIndicator();
+    }
+
+    this.restorePendingFocus();
+    this.updateTabStop();
+
+    if (changed.has('layout')) {
+      this.setupMasonry(changed.get('layout') as ScrollerLayout | undefined);
+    }
+    if (
+      changed.has('layout') ||
+      changed.has('fixedColumnCount') ||
+      changed.has('orientation') ||
+      changed.has('virtualizationEnabled')
+    ) {
+      this.updateColumnCount();
+    }
+    if (changed.has('layout') || changed.has('fixedColumnCount')) {
+      this.restoreScrollAnchor(this.layoutAnchor);
+      this.layoutAnchor = undefined;
+    }
+
+    // the measured sizes don't apply to a different layout
+    if (
+      changed.has('layout') ||
+      changed.has('fixedColumnCount') ||
+      changed.has('orientation')
+    ) {
+      this.cellSizes.clear();
+    }
+    if (
+      changed.has('itemCount') ||
+      changed.has('cellWindow') ||
+      changed.has('layout')
+    ) {
+      this.applyEstimatedSizes();
+    }
+
+    if (changed.has('dataSource') || changed.has('pageSize')) {
+      this.setupItemCache();
+    }
+
+    if (changed.has('impressionDwellTime')) {
+      this.impressions.dwellTime = this.impressionDwellTime;
+    }
+    if (changed.has('cellPoolSize')) {
+      this.cellPool.maxSizePerType = this.cellPoolSize;
+    }
+    if (changed.has('cellRecyclingEnabled') && !this.cellRecyclingEnabled) {
+      this.cellPool.clear();
+    }
+    if (changed.has('instrumentationEnabled')) {
+      this.instrumentation = this.instrumentationEnabled
+        ? new ScrollerInstrumentation()
+        : undefined;
+    }
+    if (changed.has('debugOverlayEnabled')) {
+      if (this.debugOverlayEnabled) {
+        this.updateDebugOverlay();
+      } else if (changed.get('debugOverlayEnabled')) {
+        this.clearDebugOverlay();
+      }
+    }
+    if (
+      changed.has('scrubberEnabled') ||
+      changed.has('scrollContainer') ||
+      changed.has('orientation')
+    ) {
+      this.observeScrubberTrack();
+    }
+    if (changed.has('scrubberLength')) {
+      this.positionScrubberThumb();
+    }
+    if (
+      changed.has('expandedIndex') ||
+      changed.has('layout') ||
+      changed.has('fixedColumnCount')
+    ) {
+      this.realignDetailPanel();
+    }
+    this.observeDetailPanel();
+
+    if (this.virtualizationActive) {
+      this.measureRows();
+      if (changed.has('cellWindow')) this.pruneCellsOutsideWindow();
+    }
+
+    if (
+      changed.has('itemCount') ||
+      changed.has('scrollOptimizationsDisabled') ||
+      changed.has('virtualizationEnabled') ||
+      changed.has('scrollContainer') ||
+      changed.has('orientation') ||
+      changed.has('layout') ||
+      changed.has('cellWindow') ||
+      changed.has('dataSource') ||
+      changed.has('pageSize')
+    ) {
+      this.setupObservations();
+    }
+
+    if (
+      changed.has('itemCount') ||
+      changed.has('virtualizationEnabled') ||
+      changed.has('rowStride')
+    ) {
+      this.updateCellWindow();
+    }
+
+    // render the buffer for the new policy right away rather than on the next scroll
+    if (changed.has('bufferPolicy') && changed.get('bufferPolicy')) {
+      this.updateFlinging();
+      this.updateCellWindow();
+      if (!this.scrollOptimizationsDisabled) this.processVisibleCells();
+    }
+
+    // the sentinel may have been in view while the events were suppressed
+    if (changed.has('hasMore') || changed.has('loading')) {
+      this.reobserveSentinel();
+    }
+  }
+
+  disconnectedCallback() {
+    this.intersectionObserver?.disconnect();
+    this.scrollEventTarget?.removeEventListener('scroll', this.handleScroll);
+    this.scrollEventTarget = undefined;
+    window.clearTimeout(this.scrollSettleTimer);
+    this.impressions.stop();
+    window.removeEventListener('resize', this.scheduleCellWindowUpdate);
+    window.removeEventListener('resize', this.measureScrubber);
+    this.removeEventListener('touchstart', this.handleTouchStart);
+    this.removeEventListener('touchmove', this.handleTouchMove);
+    this.removeEventListener('touchend', this.handleTouchEnd);
+    this.removeEventListener('touchcancel', this.handleTouchEnd);
+    this.removeEventListener('wheel', this.handleWheel);
+    this.updateOverscrollBehavior();
+    this.endCellDrag();
+    this.endScrubbing();
+    this.masonryResizeObserver?.disconnect();
+    this.cellResizeObserver?.disconnect();
+    this.scrubberResizeObserver?.disconnect();
+    if (this.columnCountFrame !== undefined) {
+      cancelAnimationFrame(this.columnCountFrame);
+      this.columnCountFrame = undefined;
+    }
+    if (this.cellWindowFrame !== undefined) {
+      cancelAnimationFrame(this.cellWindowFrame);
+      this.cellWindowFrame = undefined;
+    }
+  }
+
+  /**
+   * Whether only the cells in the window are rendered, which requires
+   * scroll optimizations since a static page needs all of the cells
+   */
+  private get virtualizationActive(): boolean {
+    return (
+      this.virtualizationEnabled &&
+      !this.scrollOptimizationsDisabled &&
+      !this.horizontal &&
+      this.layout !== 'masonry' &&
+      !this.sectionIndex
+    );
+  }
+
+  /**
+   * The range of cell indices to render cell containers for
+   */
+  private get materializedWindow(): CellWindow {
+    if (!this.virtualizationActive) {
+      return { start: 0, end: this.itemCount - 1 };
+    }
+    const { start, end } = this.cellWindow;
+    return this.rowAlignedWindow(start, end);
+  }
+
+  /**
+   * The given range clamped to the indices and extended to whole rows,
+   * which start over at each section when sectioned
+   */
+  private rowAlignedWindow(start: number, end: number): CellWindow {
+    const { sectionIndex, columnCount, itemCount } = this;
+    if (!sectionIndex) {
+      return rowAlignedWindow(start, end, columnCount, itemCount);
+    }
+    const clamped = rowAlignedWindow(start, end, 1, itemCount);
+    if (clamped.end < clamped.start) return clamped;
+    return {
+      start: sectionIndex.rowStartIndex(clamped.start, columnCount),
+      end: sectionIndex.rowEndIndex(clamped.end, columnCount),
+    };
+  }
+
+  /**
+   * The indices of cells that have been rendered
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private renderedCellIndices = new Set<number>();
+
+  /**
+   * The indices of cells that are visible
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private visibleCellIndices = new Set<number>();
+
+  /**
+   * The indices of cells that have placeholders in them
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private placeholderCellIndices = new Set<number>();
+
+  /**
+   * The errors for cells that failed to load, keyed by index
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private failedCellErrors = new Map<number, unknown>();
+
+  /**
+   * The measured sizes of the rendered cells along the scroll axis, keyed by index,
+   * to size their containers while they aren't rendered
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private cellSizes = new Map<number, number>();
+
+  /**
+   * The last observed size of each cell container, rendered or not,
+   * to tell how much it changed by
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private observedCellSizes = new WeakMap<Element, number>();
+
+  /**
+   * Observes the cell container sizes to fill the size cache and to keep
+   * the visible cells in place when the cells before them change size, and
+   * the detail panel's size to size its spacer and realign it with the columns
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private cellResizeObserver?: ResizeObserver;
+
+  /**
+   * The selected cells
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private selection = new CellSelectionModel();
+
+  /**
+   * The DOM of cells that left the buffer, ready to be recycled
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private cellPool = new CellRecyclingPool(this.cellPoolSize);
+
+  /**
+   * The recycled content rendered in each cell container
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private recycledCells = new WeakMap<HTMLElement, RecycledCell>();
+
+  /**
+   * The stable keys of the cell containers by index, so a cell's container
+   * and its content move with it when items are added before it
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private cellKeys: number[] = [];
+
+  /**
+   * The key to give the next cell container that doesn't have one
+   */
+  private nextCellKey = 0;
+
+  private keyForIndex(index: number): number {
+    let key = this.cellKeys[index];
+    if (key === undefined) {
+      key = this.nextCellKey;
+      this.nextCellKey += 1;
+      this.cellKeys[index] = key;
+    }
+    return key;
+  }
+
+  /**
+   * Show the given source indices, or all of them when there's no view
+   */
+  private applyViewIndices(viewIndices?: number[]) {
+    this.viewIndices = viewIndices;
+    this.viewPositions = new Map(
+      viewIndices?.map((sourceIndex, index): [number, number] => [
+        sourceIndex,
+        index,
+      ])
+    );
+  }
+
+  /**
+   * Move the source indices along with the cells: the view's when one is
+   * applied, or else the loaded items', which are kept by source index
+   */
+  private remapSourceIndices(mapping: IndexMapping) {
+    const { viewIndices } = this;
+    if (!viewIndices) {
+      this.itemCache?.remapIndices(mapping);
+      return;
+    }
+    const remappedViewIndices: number[] = [];
+    viewIndices.forEach((sourceIndex, index) => {
+      const newIndex = mapping(index);
+      if (newIndex !== undefined) remappedViewIndices[newIndex] = sourceIndex;
+    });
+    this.applyViewIndices(remappedViewIndices);
+  }
+
+  /**
+   * Move all of the state that is tracked by index to the new indices
+   * after items were added or removed
+   *
+   * @param mapping Maps the old indices to the new ones
+   * @param viewChanged Whether a new view was applied, which leaves the source indices alone
+   */
+  private remapIndices(mapping: IndexMapping, viewChanged = false) {
+    this.renderedCellIndices = remapIndexSet(this.renderedCellIndices, mapping);
+    this.visibleCellIndices = remapIndexSet(this.visibleCellIndices, mapping);
+    this.visibleCellRatios = remapIndexMap(this.visibleCellRatios, mapping);
+    this.impressions.remapIndices(mapping);
+    this.visibleCellIndices.forEach(index =>
+      this.impressions.indexVisible(index)
+    );
+    this.placeholderCellIndices = remapIndexSet(
+      this.placeholderCellIndices,
+      mapping
+    );
+    this.prerenderedCellIndices = remapIndexSet(
+      this.prerenderedCellIndices,
+      mapping
+    );
+    this.failedCellErrors = remapIndexMap(this.failedCellErrors, mapping);
+    this.cellSizes = remapIndexMap(this.cellSizes, mapping);
+    this.selection.remapIndices(mapping);
+    this.activeCellIndex =
+      mapping(this.activeCellIndex) ??
+      Math.max(0, Math.min(this.activeCellIndex, this.itemCount - 1));
+    if (this.pendingFocusIndex !== undefined) {
+      this.pendingFocusIndex = mapping(this.pendingFocusIndex);
+    }
+    if (this.expandedIndex !== undefined) {
+      this.expandedIndex = mapping(this.expandedIndex);
+    }
+    if (!viewChanged) this.remapSourceIndices(mapping);
+
+    const cellKeys: number[] = [];
+    this.cellKeys.forEach((key, index) => {
+      const newIndex = mapping(index);
+      if (newIndex !== undefined) cellKeys[newIndex] = key;
+    });
+    this.cellKeys = cellKeys;
+  }
+
+  /**
+   * Move the cells to their new indices after items were inserted, removed
+   * or moved, keeping the scroll position and animating the change if enabled
+   *
+   * @param mapping Maps the old indices to the new ones
+   * @param itemCount The number of items after the change
+   * @param isStable Whether the cell at an old index stays in place relative to
+   *  the cells around it, so it can be used as the scroll anchor
+   * @param viewChanged Whether the change comes from applying a new view
+   */
+  private changeItems(
+    mapping: IndexMapping,
+    itemCount: number,
+    isStable: (index: number) => boolean = index =>
+      mapping(index) !== undefined,
+    viewChanged = false
+  ) {
+    const anchor = this.scrollAnchor(isStable);
+    const animatedContainers = this.animateItemChanges
+      ? this.populatedCellContainers
+      : [];
+    const positions = recordPositions(animatedContainers);
+
+    this.remapIndices(mapping, viewChanged);
+    // keep the window over the same cells when cells are added or removed before it
+    if (itemCount !== this.itemCount) {
+      const { start, end } = this.cellWindow;
+      this.cellWindow = {
+        start: mapping(start) ?? start,
+        end: mapping(end) ?? end,
+      };
+    }
+    this.itemCount = itemCount;
+    // moving items doesn't change any properties but the indices need updating
+    this.requestUpdate();
+    // the pages in flight were aborted, so fetch the buffer's items again
+    this.loadBufferItems();
+
+    this.updateComplete.then(() => {
+      this.restoreScrollAnchor(anchor);
+      if (!this.animateItemChanges) return;
+      // cells moving into the buffer, including inserted ones, fade in
+      const newContainers = this.bufferRange
+        .map(index => this.cellContainerForIndex(index))
+        .filter(
+          (cellContainer): cellContainer is HTMLDivElement =>
+            !!cellContainer && !positions.has(cellContainer)
+        );
+      animateFromPositions(
+        positions,
+        newContainers,
+        itemChangeAnimationDuration
+      );
+    });
+  }
+
+  /**
+   * The cell containers that have content or a placeholder in them
+   */
+  private get populatedCellContainers(): HTMLElement[] {
+    const indices = [
+      ...this.renderedCellIndices,
+      ...this.placeholderCellIndices,
+    ];
+    return indices
+      .map(index => this.cellContainerForIndex(index))
+      .filter(
+        (cellContainer): cellContainer is HTMLDivElement => !!cellContainer
+      );
+  }
+
+  /**
+   * The first visible (or else rendered) cell container and its position
+   * on screen, to keep in place when the cells before it change
+   *
+   * @param isStable Whether the cell at an index can be used as the anchor
+   */
+  private scrollAnchor(
+    isStable: (index: number) => boolean = () => true
+  ): ScrollAnchor | undefined {
+    const indices = this.visibleCellIndices.size
+      ? this.visibleCellIndices
+      : this.renderedCellIndices;
+    const candidates = Array.from(indices).filter(isStable);
+    if (candidates.length === 0) return undefined;
+    const element = this.cellContainerForIndex(Math.min(...candidates));
+    if (!element) return undefined;
+    return { element, position: this.leadingEdge(element) };
+  }
+
+  /**
+   * Scroll by however much the anchor cell moved on screen
+   */
+  private restoreScrollAnchor(anchor?: ScrollAnchor) {
+    if (!anchor || !anchor.element.isConnected) return;
+    const delta = this.leadingEdge(anchor.element) - anchor.position;
+    if (delta !== 0) this.scrollViewportBy(delta);
+  }
+
+  /**
+   * The scroll state saved under the `scrollStateKey`, if any
+   */
+  private savedScrollState(): ScrollState | undefined {
+    const { scrollStateKey } = this;
+    if (!scrollStateKey) return undefined;
+    if (this.scrollStateStorage === 'history') {
+      const historyState: Record<string, unknown> | null = window.history.state;
+      return parseScrollState(historyState?.[scrollStateKey]);
+    }
+    // the storage can be unavailable, eg. in private browsing or sandboxed
+    // iframes, and the saved state can be corrupt
+    try {
+      const savedState = window.sessionStorage.getItem(scrollStateKey);
+      return savedState ? parseScrollState(JSON.parse(savedState)) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Scroll the first visible cell of a scroll state back to its offset. The layout
+   * can shift while the window and cells render around it, so keep correcting
+   * on the following frames until the position has settled.
+   *
+   * @param passesLeft How many more times to correct the position
+   */
+  private async scrollToScrollState(
+    scrollState: ScrollState,
+    passesLeft: number
+  ): Promise<void> {
+    if (passesLeft <= 0) return;
+    const cellContainer = this.cellContainerForIndex(
+      scrollState.firstVisibleIndex
+    );
+    if (!cellContainer) return;
+    const cellStart = this.leadingEdge(cellContainer);
+    const delta = cellStart - this.viewportBounds.start + scrollState.offset;
+    if (Math.abs(delta) < 1) return;
+    this.scrollViewportBy(delta);
+    await nextAnimationFrame();
+    await this.scrollToScrollState(scrollState, passesLeft - 1);
+  }
+
+  /**
+   * Pin the unrendered cells to their previously measured sizes so the
+   * layout matches before their content renders
+   */
+  private pinCellSizes(cellSizes: Record<number, number>) {
+    Object.entries(cellSizes).forEach(([indexString, size]) => {
+      const index = parseInt(indexString, 10);
+      if (this.renderedCellIndices.has(index)) return;
+      const cellContainer = this.cellContainerForIndex(index);
+      cellContainer?.style.setProperty(this.sizeProperty, `${size}px`);
+    });
+  }
+
+  private get horizontal(): boolean {
+    return this.orientation === 'horizontal';
+  }
+
+  /**
+   * The dimension of the cells that is pinned when their content is removed
+   */
+  private get sizeProperty(): 'width' | 'height' {
+    return this.horizontal ? 'width' : 'height';
+  }
+
+  /**
+   * The size of an element along the scroll axis
+   */
+  private sizeAlongAxis(element: HTMLElement): number {
+    return this.horizontal ? element.offsetWidth : element.offsetHeight;
+  }
+
+  /**
+   * The position of an element's leading edge along the scroll axis, on screen
+   */
+  private leadingEdge(element: Element): number {
+    const rect = element.getBoundingClientRect();
+    return this.horizontal ? rect.left : rect.top;
+  }
+
+  /**
+   * The start and end of the area the cells scroll through along the scroll axis, on screen
+   */
+  private get viewportBounds(): { start: number; end: number } {
+    const { scrollRoot } = this;
+    if (!scrollRoot) return { start: 0, end: window.innerHeight };
+    const { top, bottom, left, right } = scrollRoot.getBoundingClientRect();
+    return this.horizontal
+      ? { start: left, end: right }
+      : { start: top, end: bottom };
+  }
+
+  /**
+   * Scroll the cells by the given number of pixels along the scroll axis
+   */
+  private scrollViewportBy(
+    delta: number,
+    behavior: 'auto' | 'smooth' = 'auto'
+  ) {
+    const scrollTarget = this.scrollRoot ?? window;
+    const axis = this.horizontal ? 'left' : 'top';
+    scrollTarget.scrollBy({ [axis]: delta, behavior });
+  }
+
+  /**
+   * How far to scroll to get a cell to the given alignment in the viewport
+   */
+  private alignmentDelta(
+    cellContainer: HTMLElement,
+    block: NonNullable<ScrollToCellOptions['block']>,
+    offset: number
+  ): number {
+    const viewport = this.viewportBounds;
+    const cellStart = this.leadingEdge(cellContainer);
+    const cellEnd = cellStart + this.sizeAlongAxis(cellContainer);
+    const startDelta = cellStart - viewport.start - offset;
+    const endDelta = cellEnd - viewport.end - offset;
+    switch (block) {
+      case 'center':
+        return (startDelta + endDelta) / 2;
+      case 'end':
+        return endDelta;
+      case 'nearest':
+        if (startDelta < 0) return startDelta;
+        return Math.max(0, Math.min(startDelta, endDelta));
+      default:
+        return startDelta;
+    }
+  }
+
+  /**
+   * Resolves once the scroll position has stopped changing and the cells
+   * around it have had a chance to render
+   */
+  private scrollSettledPromise(): Promise<void> {
+    return new Promise(resolve => {
+      let lastPosition: number | undefined;
+      let stableFrames = 0;
+      let frame = 0;
+      const checkPosition = () => {
+        const position = this.scrollPosition;
+        stableFrames = position === lastPosition ? stableFrames + 1 : 0;
+        lastPosition = position;
+        frame += 1;
+        if (stableFrames >= 2 || frame >= scrollSettleMaxFrames) {
+          resolve();
+        } else {
+          requestAnimationFrame(checkPosition);
+        }
+      };
+      requestAnimationFrame(checkPosition);
+    });
+  }
+
+  /**
+   * Replace the item cache when the data source or page size changes, dropping
+   * the cells that were rendered from the previous cache. The observations
+   * need setting up again afterwards to render the buffer from the new one.
+   * Without either cache, the cells come from the cell provider and are kept,
+   * eg. the ones hydrated from the server.
+   */
+  private setupItemCache() {
+    const previousCache = this.itemCache;
+    previousCache?.clear();
+    const { dataSource } = this;
+    this.itemCache = dataSource
+      ? new ItemPageCache(
+          Math.max(1, this.pageSize),
+          (start, end, signal) => dataSource.fetchRange(start, end, signal),
+          (start, end) => this.itemsLoaded(start, end),
+          (start, end, error) => this.itemsFailed(start, end, error),
+          maxCachedPages
+        )
+      : undefined;
+    if (!previousCache && !dataSource) return;
+    Array.from(this.renderedCellIndices).forEach(index =>
+      this.removeCell(index)
+    );
+  }
+
+  /**
+   * Swap the placeholders for the loaded cells once a page has loaded
+   */
+  private itemsLoaded(start: number, end: number) {
+    const loadedBufferIndices = this.bufferRange.filter(index => {
+      const sourceIndex = this.sourceIndexForIndex(index);
+      return sourceIndex >= start && sourceIndex <= end;
+    });
+    this.renderCellBuffer(loadedBufferIndices);
+  }
+
+  /**
+   * Mark the cells of a page that failed to load as failed, only rendering
+   * the error cells and emitting `cellLoadFailed` for the buffered ones
+   */
+  private itemsFailed(start: number, end: number, error: unknown) {
+    generateRange(start, end, 1).forEach(sourceIndex => {
+      const index = this.indexForSourceIndex(sourceIndex);
+      if (index !== undefined) this.failedCellErrors.set(index, error);
+    });
+    const failedBufferIndices = this.bufferRange.filter(index => {
+      const sourceIndex = this.sourceIndexForIndex(index);
+      return sourceIndex >= start && sourceIndex <= end;
+    });
+    failedBufferIndices.forEach(index => this.removeCell(index));
+    this.renderCellBuffer(failedBufferIndices);
+    failedBufferIndices.forEach(index => this.emitCellLoadFailed(index, error));
+  }
+
+  /**
+   * Emit a `cellLoadFailed` event for a cell that failed to load
+   */
+  private emitCellLoadFailed(index: number, error: unknown) {
+    const event = new CustomEvent<CellLoadFailedDetails>('cellLoadFailed', {
+      detail: { index, error },
+    });
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * Load the items of the buffer's cells from the `dataSource`, by source index
+   */
+  private loadBufferItems() {
+    const sourceIndices = this.loadableBufferRange.map(index =>
+      this.sourceIndexForIndex(index)
+    );
+    const sourceItemCount = this.viewIndices
+      ? this.sourceItemCount
+      : this.itemCount;
+    this.itemCache?.loadIndices(sourceIndices, sourceItemCount);
+  }
+
+  /**
+   * The buffer range without the cells that failed to load, which
+   * shouldn't be fetched again until they're retried
+   */
+  private get loadableBufferRange(): number[] {
+    return this.bufferRange.filter(index => !this.failedCellErrors.has(index));
+  }
+
+  /**
+   * The error cell for a failed index, falling back to the placeholder
+   */
+  private errorTemplateForIndex(index: number) {
+    const { errorCellTemplate } = this;
+    if (!errorCellTemplate) return this.placeholderCellTemplate;
+    const error = this.failedCellErrors.get(index);
+    return typeof errorCellTemplate === 'function'
+      ? errorCellTemplate(index, error)
+      : errorCellTemplate;
+  }
+
+  /**
+   * The template for the cell at the given index, from the data source
+   * once the item has loaded or from the cell provider otherwise
+   */
+  private cellTemplateForIndex(index: number): TemplateResult | undefined {
+    const { dataSource, itemCache, instrumentation } = this;
+    const sourceIndex = this.sourceIndexForIndex(index);
+    const getTemplate = () => {
+      if (!dataSource || !itemCache)
+        return this.cellProvider?.cellForIndex(sourceIndex);
+      if (!itemCache.hasItem(sourceIndex)) return undefined;
+      return dataSource.cellForItem(itemCache.itemAt(sourceIndex), sourceIndex);
+    };
+    return instrumentation
+      ? instrumentation.timeCellTemplate(getTemplate)
+      : getTemplate();
+  }
+
+  /**
+   * The recycling type of the cell at the given index
+   */
+  private cellTypeForIndex(index: number): string {
+    const { dataSource, itemCache } = this;
+    const sourceIndex = this.sourceIndexForIndex(index);
+    const cellType =
+      dataSource && itemCache
+        ? dataSource.cellTypeForItem?.(
+            itemCache.itemAt(sourceIndex),
+            sourceIndex
+          )
+        : this.cellProvider?.cellTypeForIndex?.(sourceIndex);
+    return cellType ?? defaultCellType;
+  }
+
+  /**
+   * Render a cell's template, into recycled content from the pool when
+   * recycling so Lit only has to update the bindings of matching templates
+   */
+  private renderCellContent(
+    index: number,
+    template: TemplateResult,
+    cellContainer: HTMLElement
+  ) {
+    if (!this.cellRecyclingEnabled) {
+      this.renderIntoCellContainer(template, cellContainer);
+      return;
+    }
+    const type = this.cellTypeForIndex(index);
+    const content =
+      this.cellPool.acquire(type) ?? document.createElement('div');
+    content.classList.add('recycled-cell');
+    // clear out the placeholder before putting the content in
+    this.renderIntoCellContainer(nothing, cellContainer);
+    cellContainer.append(content);
+    render(template, content);
+    this.recycledCells.set(cellContainer, { type, content });
+  }
+
+  /**
+   * Render into a cell container directly. The recycled content appended to the
+   * container ends up in the range Lit renders into, so it's released to the
+   * pool first rather than being cleared along with the rest.
+   */
+  private renderIntoCellContainer(
+    value: TemplateResult | typeof nothing | undefined,
+    cellContainer: HTMLElement
+  ) {
+    this.releaseCellContent(cellContainer);
+    render(value, cellContainer);
+  }
+
+  /**
+   * Take a cell's recycled content out of its container, and put it
+   * in the pool for the next cell of its type
+   */
+  private releaseCellContent(cellContainer: HTMLElement) {
+    const recycledCell = this.recycledCells.get(cellContainer);
+    if (!recycledCell) return;
+    this.recycledCells.delete(cellContainer);
+    recycledCell.content.remove();
+    if (this.cellRecyclingEnabled) {
+      this.cellPool.release(recycledCell.type, recycledCell.content);
+    }
+  }
+
+  /**
+   * Resolve the `scrollContainer` and move the scroll listener and the
+   * intersection observer over to it. The observations need setting up
+   * again afterwards.
+   */
+  private setupScrollRoot() {
+    this.scrollEventTarget?.removeEventListener('scroll', this.handleScroll);
+    const scrollRoot = this.resolveScrollContainer();
+    this.scrollEventTarget = scrollRoot ?? window;
+    this.scrollEventTarget.addEventListener('scroll', this.handleScroll, {
+      passive: true,
+    });
+    const scrollRootChanged = scrollRoot !== this.scrollRoot;
+    this.scrollRoot = scrollRoot;
+    this.scrollVelocity.reset();
+    // start from the current position so the first scroll has a direction
+    this.lastScrollPosition = this.scrollPosition;
+
+    if (!scrollRootChanged && this.intersectionObserver) return;
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = new IntersectionObserver(
+      this.handleIntersection,
+      { root: scrollRoot, threshold: intersectionThresholds }
+    );
+  }
+
+  /**
+   * The element for the `scrollContainer`, or `null` for the viewport
+   */
+  private resolveScrollContainer(): HTMLElement | null {
+    const { scrollContainer } = this;
+    if (scrollContainer instanceof HTMLElement) return scrollContainer;
+    if (scrollContainer === 'self') return this;
+    if (scrollContainer) {
+      const rootNode = this.getRootNode() as Document | ShadowRoot;
+      return (
+        this.closest<HTMLElement>(scrollContainer) ??
+        rootNode.querySelector<HTMLElement>(scrollContainer)
+      );
+    }
+    return this.horizontal ? this : null;
+  }
+
+  /**
+   * Add observations for all of the things that need observing
+   *
+   * @private
+   * @memberof InfiniteScroller
+   */
+  private setupObservations() {
+    this.setupIntersectionObserver();
+    this.setupCellResizeObserver();
+  }
+
+  /**
+   * Observe the sizes of the cell containers, unless all of the cells
+   * are rendered anyway because scroll optimizations are disabled, and
+   * the size of the detail panel
+   */
+  private setupCellResizeObserver() {
+    this.cellResizeObserver?.disconnect();
+    if (!this.cellResizeObserver) {
+      this.cellResizeObserver = new ResizeObserver(this.handleCellResize);
+    }
+    // the full-width detail panel resizes along with the columns
+    if (this.detailPanel) this.cellResizeObserver.observe(this.detailPanel);
+    if (this.scrollOptimizationsDisabled) return;
+    this.cellContainers.forEach(cellContainer =>
+      this.cellResizeObserver?.observe(cellContainer)
+    );
+  }
+
+  /**
+   * Cache the sizes of the rendered cells and the detail panel, and scroll by
+   * however much the rows before the viewport changed size so the visible
+   * cells stay in place
+   */
+  private handleCellResize = (entries: { target: Element }[]) => {
+    // the cells resize when the number of columns changes
+    this.scheduleColumnCountUpdate();
+    const viewportStart = this.viewportBounds.start;
+    // the cells in a grid row change size together, so only count each row once
+    const rowSizeChanges = new Map<number, number>();
+    entries.forEach(({ target }) => {
+      if (target === this.detailPanel) {
+        this.detailPanelSize =
+          (target as HTMLElement).offsetHeight + this.rowGap;
+        return;
+      }
+      const cellContainer = target as HTMLElement;
+      const index = Number(cellContainer.dataset.cellIndex);
+      const size = this.sizeAlongAxis(cellContainer);
+      const previousSize = this.observedCellSizes.get(cellContainer);
+      this.observedCellSizes.set(cellContainer, size);
+      if (this.renderedCellIndices.has(index)) this.cellSizes.set(index, size);
+
+      if (previousSize === undefined || previousSize === size) return;
+      this.instrumentation?.cellResized(size - previousSize);
+      const cellStart = this.leadingEdge(cellContainer);
+      if (cellStart + previousSize > viewportStart) return;
+      const row = Math.round(cellStart);
+      const change = size - previousSize;
+      const rowChange = rowSizeChanges.get(row) ?? 0;
+      if (Math.abs(change) > Math.abs(rowChange)) {
+        rowSizeChanges.set(row, change);
+      }
+    });
+
+    // the masonry cells don't line up in rows, so there's nothing to compensate for
+    if (this.layout === 'masonry') return;
+    let delta = 0;
+    rowSizeChanges.forEach(change => {
+      delta += change;
+    });
+    if (delta !== 0) this.scrollViewportBy(delta);
+  };
+
+  /**
+   * Size the containers of the cells that aren't rendered and haven't been
+   * pinned from their cached or estimated size
+   */
+  private applyEstimatedSizes() {
+    const provider = this.dataSource ?? this.cellProvider;
+    this.cellContainers.forEach(cellContainer => {
+      const index = Number(cellContainer.dataset.cellIndex);
+      if (this.renderedCellIndices.has(index)) return;
+      if (cellContainer.style.getPropertyValue(this.sizeProperty)) return;
+      const size =
+        this.cellSizes.get(index) ??
+        provider?.estimatedSizeForIndex?.(this.sourceIndexForIndex(index));
+      if (size === undefined) return;
+      cellContainer.style.setProperty(this.sizeProperty, `${size}px`);
+    });
+  }
+
+  /**
+   * The intersection observer is used to determine when cells are visible
+   * so we can efficiently render only the minimum number of cells
+   */
+  private setupIntersectionObserver() {
+    this.intersectionObserver?.disconnect();
+    this.intersectingSentinels.clear();
+
+    // observe the sentinels
+    // the sentinels are optional because `reload()` can be called before
+    // the DOM is ready so they may not be in the DOM yet
+    // subsequent calls to `reload()` will re-observe the sentinels
+    if (this.sentinel) this.intersectionObserver?.observe(this.sentinel);
+    if (this.startSentinel) {
+      this.intersectionObserver?.observe(this.startSentinel);
+    }
+    this.observedDetailPanel = undefined;
+    this.detailPanelVisible = false;
+    this.observeDetailPanel();
+
+    // if scroll optimizations are disabled, just add all of the datasource
+    // indices to the visibleCells and process them immediately,
+    // otherwise add all of the cells to the intersection observer to optimize
+    // the scrolling experience
+    if (this.scrollOptimizationsDisabled) {
+      const indexArray = generateRange(0, Math.max(0, this.itemCount - 1), 1);
+      indexArray.forEach(index => this.visibleCellIndices.add(index));
+      this.processVisibleCells();
+    } else {
+      // if scroll optimizations are enabled, observe all of the cell containers
+      this.cellContainers.forEach(cell =>
+        this.intersectionObserver?.observe(cell)
+      );
+    }
+
+    // in the masonry layout, the cell sizes are observed to size their row spans
+    if (this.masonryResizeObserver) {
+      this.masonryItems.forEach(masonryItem =>
+        this.masonryResizeObserver?.observe(masonryItem)
+      );
+    }
+  }
+
+  render(): TemplateResult {
+    const { start, end } = this.materializedWindow;
+    const indexArray = generateRange(start, end, 1);
+    const containerAriaLabel = this.ariaLandmarkLabel ?? nothing;
+    const totalRows = Math.ceil(this.itemCount / this.columnCount);
+    const leadingRows = Math.floor(start / this.columnCount);
+    const trailingRows = Math.max(
+      0,
+      totalRows - Math.floor(end / this.columnCount) - 1
+    );
+    const { detailRowEndIndex } = this;
+    // the spacer on the side of the expanded row stands in for the detail panel too
+    const detailRow =
+      detailRowEndIndex === undefined
+        ? undefined
+        : Math.floor(detailRowEndIndex / this.columnCount);
+    const leadingDetailSize =
+      detailRow !== undefined && detailRow < leadingRows
+        ? this.estimatedDetailPanelSize
+        : 0;
+    const trailingDetailSize =
+      detailRow !== undefined && detailRow >= totalRows - trailingRows
+        ? this.estimatedDetailPanelSize
+        : 0;
+    const containerStyle =
+      this.layout === 'fixed-grid'
+        ? styleMap({
+            gridTemplateColumns: `repeat(${Math.max(
+              1,
+              this.fixedColumnCount
+            )}, minmax(0, 1fr))`,
+          })
+        : nothing;
+    return html`
+      ${this.refreshIndicatorTemplate} ${this.newItemsPillTemplate}
+      ${this.scrubberTemplate}
+      <section
+        id="container"
+        class="layout-${this.layout}"
+        style=${containerStyle}
+        role="feed"
+        aria-label=${containerAriaLabel}
+      >
+        <div id="start-sentinel" aria-hidden="true"></div>
+        <div id="sentinel" aria-hidden="true"></div>
+        ${this.spacerTemplate(
+          'leading-spacer',
+          0,
+          leadingRows,
+          leadingDetailSize
+        )}
+        ${repeat(
+          indexArray,
+          index => this.keyForIndex(index),
+          index => html`
+            ${this.sectionHeaderTemplate(index)}
+            <article
+              class="cell-container"
+              aria-posinset=${index + 1}
+              aria-setsize=${this.itemCount}
+              data-cell-index=${index}
+              tabindex=${index === this.activeCellIndex ? 0 : -1}
+              aria-selected=${this.ariaSelectedForIndex(index)}
+              aria-expanded=${index === this.expandedIndex &&
+              detailRowEndIndex !== undefined
+                ? 'true'
+                : nothing}
+              @click=${(e: MouseEvent) => this.cellClicked(e, index)}
+              @keyup=${(e: KeyboardEvent) => {
+                if (e.key === 'Enter') this.cellSelected(e, index);
+              }}
+              @keydown=${(e: KeyboardEvent) => this.cellKeyDown(e, index)}
+              @pointerdown=${(e: PointerEvent) =>
+                this.cellPointerDown(e, index)}
+              @focusin=${() => this.setActiveCellIndex(index)}
+            >
+              ${this.serverRendered
+                ? this.prerenderedCellTemplate(index)
+                : nothing}
+            </article>
+            ${index === detailRowEndIndex ? this.detailPanelTemplate : nothing}
+          `
+        )}
+        ${this.spacerTemplate(
+          'trailing-spacer',
+          totalRows - trailingRows,
+          trailingRows,
+          trailingDetailSize
+        )}
+        ${this.dropIndicatorTemplate}
+        <slot name="result-last-tile"></slot>
+        ${this.footerTemplate}
+      </section>
+    `;
+  }
+
+  /**
+   * A full-width spacer standing in for the given unrendered rows
+   *
+   * @param firstRow The first of the rows
+   * @param rowCount How many rows the spacer stands in for
+   * @param extraSize The size of anything else unrendered among the rows, eg. the detail panel
+   */
+  private spacerTemplate(
+    id: string,
+    firstRow: number,
+    rowCount: number,
+    extraSize = 0
+  ) {
+    if (!this.virtualizationActive || rowCount <= 0) return nothing;
+    // the grid adds a row gap after the spacer so leave it out of the height
+    const height = Math.max(
+      0,
+      this.unrenderedRowsSize(firstRow, rowCount) - this.rowGap + extraSize
+    );
+    return html`
+      <div
+        id=${id}
+        class="cell-spacer"
+        aria-hidden="true"
+        style=${styleMap({ height: `${height}px` })}
+      ></div>
+    `;
+  }
+
+  /**
+   * The size of the given rows along the scroll axis, including their row gaps,
+   * from the cached or estimated sizes of their cells. Rows without either
+   * count as the measured row stride.
+   */
+  private unrenderedRowsSize(firstRow: number, rowCount: number): number {
+    const { columnCount, rowGap, rowStride } = this;
+    const provider = this.dataSource ?? this.cellProvider;
+    const endRow = firstRow + rowCount;
+    // the tallest cell sets the size of each row
+    const rowSizes = new Map<number, number>();
+    const addCellSize = (index: number, size: number) => {
+      const row = Math.floor(index / columnCount);
+      rowSizes.set(row, Math.max(rowSizes.get(row) ?? 0, size));
+    };
+
+    if (provider?.estimatedSizeForIndex) {
+      const lastIndex = Math.min(endRow * columnCount, this.itemCount) - 1;
+      generateRange(firstRow * columnCount, lastIndex, 1).forEach(index => {
+        const size =
+          this.cellSizes.get(index) ??
+          provider.estimatedSizeForIndex?.(this.sourceIndexForIndex(index));
+        if (size !== undefined) addCellSize(index, size);
+      });
+    } else {
+      // without estimates only the cached sizes are known, so skip the rest
+      this.cellSizes.forEach((size, index) => {
+        const row = Math.floor(index / columnCount);
+        if (row >= firstRow && row < endRow) addCellSize(index, size);
+      });
+    }
+
+    let size = (rowCount - rowSizes.size) * rowStride;
+    rowSizes.forEach(rowSize => {
+      size += rowSize + rowGap;
+    });
+    return size;
+  }
+
+  /**
+   * The cells to inline when server-side rendering: all of them when scroll
+   * optimizations are disabled, eg. for static pages, or the initial buffer
+   */
+  private get initialCellIndices(): number[] {
+    const cellCount = this.scrollOptimizationsDisabled
+      ? this.itemCount
+      : Math.min(
+          this.itemCount,
+          Math.max(minimumCellBufferSize, this.bufferPolicy.trailingCells ?? 0)
+        );
+    return cellCount > 0 ? generateRange(0, cellCount - 1, 1) : [];
+  }
+
+  /**
+   * The content inlined in a cell container when server-side rendering. It has its
+   * own wrapper so clearing it doesn't touch the content rendered on the client.
+   */
+  private prerenderedCellTemplate(index: number) {
+    const template = this.prerenderedCellIndices.has(index)
+      ? this.cellTemplateForIndex(index) ?? this.placeholderCellTemplate
+      : undefined;
+    return html`<div class="prerendered-cell">${template ?? nothing}</div>`;
+  }
+
+  /**
+   * Treat the hydrated cells like they were rendered on the client, so they
+   * aren't rendered again until they change
+   */
+  private adoptPrerenderedCells() {
+    this.prerenderedCellIndices.forEach(index => {
+      if (this.cellTemplateForIndex(index)) {
+        this.renderedCellIndices.add(index);
+      } else {
+        this.placeholderCellIndices.add(index);
+      }
+    });
+  }
+
+  /**
+   * Drop a cell's server-rendered content before it is rendered on the client
+   */
+  private releasePrerenderedCell(index: number) {
+    if (this.prerenderedCellIndices.delete(index)) this.requestUpdate();
+  }
+
+  /**
+   * The sticky header to render before the first cell of each section
+   */
+  private sectionHeaderTemplate(index: number) {
+    const indexPath = this.sectionIndex?.indexPathForIndex(index);
+    if (!indexPath || indexPath.item !== 0) return nothing;
+    const provider = this.dataSource ?? this.cellProvider;
+    const header = provider?.headerForSection?.(indexPath.section);
+    return html`
+      <div class="section-header" data-section-index=${indexPath.section}>
+        ${header ?? nothing}
+      </div>
+    `;
+  }
+
+  /**
+   * The index of the last cell in the expanded cell's row, which the detail
+   * panel follows, if there's a detail panel to show
+   */
+  private get detailRowEndIndex(): number | undefined {
+    const { expandedIndex, columnCount } = this;
+    if (expandedIndex === undefined || !this.detailsAvailable) return undefined;
+    if (expandedIndex < 0 || expandedIndex >= this.itemCount) return undefined;
+    // the rows start over at each section
+    const indexPath = this.indexPathForIndex(expandedIndex);
+    const rowBase = indexPath ? expandedIndex - indexPath.item : 0;
+    const row = Math.floor((expandedIndex - rowBase) / columnCount);
+    let rowEnd = Math.min(
+      rowBase + (row + 1) * columnCount - 1,
+      this.itemCount - 1
+    );
+    while (
+      indexPath &&
+      rowEnd > expandedIndex &&
+      this.indexPathForIndex(rowEnd)?.section !== indexPath.section
+    ) {
+      rowEnd -= 1;
+    }
+    return rowEnd;
+  }
+
+  /**
+   * Whether the layout has rows for a detail panel to span
+   */
+  private get detailsAvailable(): boolean {
+    const provider = this.dataSource ?? this.cellProvider;
+    return (
+      !!provider?.detailForIndex &&
+      this.layout !== 'masonry' &&
+      !this.horizontal
+    );
+  }
+
+  /**
+   * The full-width panel with the details of the expanded cell
+   */
+  private get detailPanelTemplate() {
+    const { expandedIndex } = this;
+    if (expandedIndex === undefined) return nothing;
+    const provider = this.dataSource ?? this.cellProvider;
+    const detail = provider?.detailForIndex?.(
+      this.sourceIndexForIndex(expandedIndex)
+    );
+    return html` <div id="detail-panel">${detail ?? nothing}</div> `;
+  }
+
+  /**
+   * The detail panel's measured size, or a row's worth until it has rendered
+   */
+  private get estimatedDetailPanelSize(): number {
+    return this.detailPanelSize ?? this.rowStride;
+  }
+
+  /**
+   * Keep the column count up to date while a cell is expanded, so the
+   * detail panel moves to the end of the expanded cell's new row. After
+   * that, the cell resize observer realigns it as the columns change.
+   */
+  private realignDetailPanel() {
+    if (this.expandedIndex === undefined) return;
+    this.updateColumnCount();
+  }
+
+  /**
+   * Observe the detail panel whenever it's rendered anew, eg. after the
+   * column count changed and it moved to the end of another row
+   */
+  private observeDetailPanel() {
+    const { detailPanel, observedDetailPanel, intersectionObserver } = this;
+    if (detailPanel) {
+      this.detailPanelSize = detailPanel.offsetHeight + this.rowGap;
+    }
+    if (detailPanel === observedDetailPanel) return;
+    if (observedDetailPanel) {
+      intersectionObserver?.unobserve(observedDetailPanel);
+      this.cellResizeObserver?.unobserve(observedDetailPanel);
+    }
+    if (detailPanel) {
+      intersectionObserver?.observe(detailPanel);
+      this.cellResizeObserver?.observe(detailPanel);
+    }
+    this.observedDetailPanel = detailPanel;
+    this.detailPanelVisible = false;
+  }
+
+  private ariaSelectedForIndex(index: number) {
+    if (this.selectionMode === 'none') return nothing;
+    return this.selection.has(index) ? 'true' : 'false';
+  }
+
+  /**
+   * Update the selection for a click on a cell, depending on the
+   * selection mode and the modifier keys
+   */
+  private cellClicked(e: MouseEvent, index: number) {
+    if (this.suppressCellClick) return;
+    if (this.selectionMode !== 'none') {
+      const toggle = e.ctrlKey || e.metaKey;
+      let changed: boolean;
+      if (this.selectionMode === 'single') {
+        changed =
+          toggle && this.selection.has(index)
+            ? this.selection.clear()
+            : this.selection.select(index);
+      } else if (e.shiftKey) {
+        changed = this.selection.selectRange(index, toggle);
+      } else if (toggle) {
+        changed = this.selection.toggle(index);
+      } else {
+        changed = this.selection.select(index);
+      }
+      this.selectionUpdated(changed);
+    }
+    this.cellSelected(e, index);
+  }
+
+  /**
+   * Toggle the selection of a cell from the keyboard
+   */
+  private cellSelectionToggled(index: number) {
+    if (this.selectionMode === 'single') {
+      this.selectionUpdated(
+        this.selection.has(index)
+          ? this.selection.clear()
+          : this.selection.select(index)
+      );
+    } else if (this.selectionMode === 'multiple') {
+      this.selectionUpdated(this.selection.toggle(index));
+    }
+  }
+
+  /**
+   * Render the new selection and emit a `selectionChanged` event if it changed
+   */
+  private selectionUpdated(changed: boolean) {
+    if (!changed) return;
+    this.requestUpdate();
+    const event = new CustomEvent<SelectionChangedDetails>('selectionChanged', {
+      detail: { selectedIndices: this.getSelectedIndices() },
+    });
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * Move the focus between cells with the keyboard:
+   * - Left / Right: the previous / next cell
+   * - Up / Down: the cell in the previous / next row, for the current column count
+   * - Page Up / Page Down: the previous / next cell, per the ARIA feed pattern
+   * - Home / End: the first / last cell
+   *
+   * and Space toggles the selection of the cell when selection is enabled.
+   */
+  private cellKeyDown(e: KeyboardEvent, index: number) {
+    // leave the keys alone for focusable elements inside the cell
+    if (e.target !== e.currentTarget) return;
+    if (e.key === ' ' && this.selectionMode !== 'none') {
+      e.preventDefault();
+      this.cellSelectionToggled(index);
+      return;
+    }
+    const targetIndex = this.keyTargetIndex(e.key, index);
+    if (targetIndex === undefined) return;
+    e.preventDefault();
+    const clampedIndex = Math.max(0, Math.min(targetIndex, this.itemCount - 1));
+    if (this.reorderEnabled && e.altKey) {
+      // move the cell along with the focus
+      if (clampedIndex === index) return;
+      if (!this.requestReorder(index, clampedIndex)) return;
+    }
+    this.focusCell(clampedIndex);
+  }
+
+  /**
+   * The index a navigation key moves to from the given index, if it's one
+   */
+  private keyTargetIndex(key: string, index: number): number | undefined {
+    const { columnCount, sectionIndex } = this;
+    // each section starts a new row, so the rows don't line up with the indices
+    const rowAbove = sectionIndex
+      ? sectionIndex.indexInAdjacentRow(index, columnCount, -1) ?? index
+      : index - columnCount;
+    const rowBelow = sectionIndex
+      ? sectionIndex.indexInAdjacentRow(index, columnCount, 1) ?? index
+      : index + columnCount;
+    return {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      ArrowUp: rowAbove,
+      ArrowDown: rowBelow,
+      PageUp: index - 1,
+      PageDown: index + 1,
+      Home: 0,
+      End: this.itemCount - 1,
+    }[key];
+  }
+
+  /**
+   * Emit a `cellReorderRequested` event and move the cell unless it's cancelled
+   *
+   * @returns Whether the cell was moved
+   */
+  private requestReorder(from: number, to: number): boolean {
+    const event = new CustomEvent<CellReorderDetails>('cellReorderRequested', {
+      detail: { from, to },
+      cancelable: true,
+    });
+    if (!this.dispatchEvent(event)) return false;
+    this.moveItem(from, to);
     return true;
   }
 
-  /** @inheritdoc */
-  getVisibleCellIndices(): number[] {
-    return Array.from(this.visibleCellIndices);
+  /**
+   * Get ready to drag a cell, which starts once the pointer has moved far enough.
+   * Touches are left alone so they keep scrolling.
+   */
+  private cellPointerDown(e: PointerEvent, index: number) {
+    if (!this.reorderEnabled || e.button !== 0 || e.pointerType === 'touch') {
+      return;
+    }
+    this.endCellDrag();
+    this.cellDrag = {
+      from: index,
+      element: e.currentTarget as HTMLElement,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      active: false,
+    };
+    window.addEventListener('pointermove', this.handleDragPointerMove);
+    window.addEventListener('pointerup', this.handleDragPointerUp);
+    window.addEventListener('pointercancel', this.endCellDrag);
+    window.addEventListener('keydown', this.handleDragKeyDown);
+  }
+
+  private handleDragPointerMove = (e: PointerEvent) => {
+    const { cellDrag } = this;
+    if (!cellDrag || e.pointerId !== cellDrag.pointerId) return;
+    cellDrag.x = e.clientX;
+    cellDrag.y = e.clientY;
+    if (!cellDrag.active) {
+      const distance = Math.hypot(
+        e.clientX - cellDrag.startX,
+        e.clientY - cellDrag.startY
+      );
+      if (distance < dragStartDistance) return;
+      cellDrag.active = true;
+      cellDrag.element.classList.add('dragging');
+      this.autoScrollFrame = requestAnimationFrame(
+        this.autoScrollWhileDragging
+      );
+    }
+    this.updateDropTarget();
+  };
+
+  private handleDragPointerUp = (e: PointerEvent) => {
+    const { cellDrag } = this;
+    if (!cellDrag || e.pointerId !== cellDrag.pointerId) return;
+    if (cellDrag.active) {
+      // the click that follows the drop shouldn't select the cell
+      this.suppressCellClick = true;
+      setTimeout(() => {
+        this.suppressCellClick = false;
+      });
+      const { from, insertionIndex } = cellDrag;
+      const to =
+        insertionIndex === undefined
+          ? from
+          : moveTargetIndex(from, insertionIndex);
+      if (to !== from) this.requestReorder(from, to);
+    }
+    this.endCellDrag();
+  };
+
+  private handleDragKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') this.endCellDrag();
+  };
+
+  /**
+   * Stop dragging, without dropping the cell
+   */
+  private endCellDrag = () => {
+    this.cellDrag?.element.classList.remove('dragging');
+    this.cellDrag = undefined;
+    this.positionDropIndicator(undefined);
+    if (this.autoScrollFrame !== undefined) {
+      cancelAnimationFrame(this.autoScrollFrame);
+      this.autoScrollFrame = undefined;
+    }
+    window.removeEventListener('pointermove', this.handleDragPointerMove);
+    window.removeEventListener('pointerup', this.handleDragPointerUp);
+    window.removeEventListener('pointercancel', this.endCellDrag);
+    window.removeEventListener('keydown', this.handleDragKeyDown);
+  };
+
+  /**
+   * Scroll while the dragged cell is near the edges of the viewport. The cells
+   * scrolling into view render as usual from the scroll events.
+   */
+  private autoScrollWhileDragging = () => {
+    const { cellDrag } = this;
+    if (!cellDrag?.active) return;
+    const { start, end } = this.viewportBounds;
+    const pointer = this.horizontal ? cellDrag.x : cellDrag.y;
+    const delta = autoScrollDelta(pointer, start, end);
+    if (delta !== 0) {
+      this.scrollViewportBy(delta);
+      // the cells moved under the pointer
+      this.updateDropTarget();
+    }
+    this.autoScrollFrame = requestAnimationFrame(this.autoScrollWhileDragging);
+  };
+
+  /**
+   * Work out where the dragged cell would be dropped from the cell under the
+   * pointer, dropping between cells along the rows in grids and carousels
+   * and between rows in lists
+   */
+  private updateDropTarget() {
+    const { cellDrag, container } = this;
+    if (!cellDrag || !container) return;
+    // where there's no cell to tell, we keep the last drop target
+    const index = this.cellIndexAtPointer(cellDrag.x, cellDrag.y);
+    if (index === undefined) return;
+    const cellContainer = this.cellContainerForIndex(index);
+    if (!cellContainer) {
+      // the cell isn't rendered yet, eg. while auto-scrolling over a spacer,
+      // so there's nothing to show the indicator against
+      cellDrag.insertionIndex = index;
+      this.positionDropIndicator(undefined);
+      return;
+    }
+
+    const rect = cellContainer.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    const alongRows = this.horizontal || this.columnCount > 1;
+    const insertionIndex = alongRows
+      ? insertionIndexAt(index, cellDrag.x, rect.left, rect.right)
+      : insertionIndexAt(index, cellDrag.y, rect.top, rect.bottom);
+    cellDrag.insertionIndex = insertionIndex;
+
+    const atStart = insertionIndex === index;
+    this.positionDropIndicator(
+      alongRows
+        ? {
+            left: (atStart ? rect.left : rect.right) - containerRect.left - 1,
+            top: rect.top - containerRect.top,
+            width: 2,
+            height: rect.height,
+          }
+        : {
+            left: rect.left - containerRect.left,
+            top: (atStart ? rect.top : rect.bottom) - containerRect.top - 1,
+            width: rect.width,
+            height: 2,
+          }
+    );
+  }
+
+  /**
+   * The index of the rendered cell under the pointer, or else the one estimated
+   * from the rows, eg. over a spacer or the gap between cells
+   */
+  private cellIndexAtPointer(x: number, y: number): number | undefined {
+    const cellContainer = Array.from(this.cellContainers).find(element => {
+      const { left, right, top, bottom } = element.getBoundingClientRect();
+      return x >= left && x < right && y >= top && y < bottom;
+    });
+    const indexString = cellContainer?.dataset.cellIndex;
+    if (indexString) return parseInt(indexString, 10);
+
+    // the carousels, masonry cells and sections don't line up in rows of cells
+    const { container, columnCount, itemCount } = this;
+    if (
+      !container ||
+      this.horizontal ||
+      this.layout === 'masonry' ||
+      this.sectionIndex ||
+      this.rowStride <= 0 ||
+      itemCount === 0
+    ) {
+      return undefined;
+    }
+    const { top, left, width } = container.getBoundingClientRect();
+    const row = this.rowAtOffset(Math.max(0, y - top));
+    const column = Math.min(
+      columnCount - 1,
+      Math.max(0, Math.floor(((x - left) / width) * columnCount))
+    );
+    return Math.min(row * columnCount + column, itemCount - 1);
+  }
+
+  /**
+   * The line showing where the dragged cell would be dropped, positioned by
+   * `positionDropIndicator()`
+   */
+  private get dropIndicatorTemplate() {
+    if (!this.reorderEnabled) return nothing;
+    return html`<div id="drop-indicator" aria-hidden="true" hidden></div>`;
+  }
+
+  /**
+   * Show the drop indicator at the given rect, or hide it without one
+   */
+  private positionDropIndicator(rect: DropIndicatorRect | undefined) {
+    const { dropIndicator } = this;
+    if (!dropIndicator) return;
+    dropIndicator.hidden = !rect;
+    if (!rect) return;
+    const { style } = dropIndicator;
+    style.left = `${rect.left}px`;
+    style.top = `${rect.top}px`;
+    style.width = `${rect.width}px`;
+    style.height = `${rect.height}px`;
+  }
+
+  /**
+   * Focus the cell at the given index, rendering its container first if needed
+   */
+  private async focusCell(index: number) {
+    this.setActiveCellIndex(index);
+    if (!this.cellContainerForIndex(index) && this.virtualizationActive) {
+      this.cellWindow = this.windowAroundIndices(index, index);
+    }
+    await this.updateComplete;
+    this.cellContainerForIndex(index)?.focus();
+  }
+
+  /**
+   * Move the cell in the tab order to the given index
+   */
+  private setActiveCellIndex(index: number) {
+    if (index === this.activeCellIndex) return;
+    this.activeCellIndex = index;
+    this.updateTabStop();
+  }
+
+  /**
+   * Put the active cell in the tab order and take the others out of it, falling
+   * back to the first rendered cell when the active one is outside the window
+   * so the cells can still be reached with Tab
+   */
+  private updateTabStop() {
+    const tabStop =
+      this.cellContainerForIndex(this.activeCellIndex) ??
+      this.cellContainers[0];
+    this.shadowRoot
+      ?.querySelectorAll('.cell-container[tabindex="0"]')
+      .forEach(cellContainer => {
+        if (cellContainer !== tabStop) {
+          cellContainer.setAttribute('tabindex', '-1');
+        }
+      });
+    tabStop?.setAttribute('tabindex', '0');
+  }
+
+  /**
+   * The index of the cell that has the focus, either itself or within its content
+   */
+  private get focusedCellIndex(): number | undefined {
+    const focusedElement = this.shadowRoot?.activeElement;
+    const cellContainer =
+      focusedElement?.closest<HTMLElement>('.cell-container');
+    const indexString = cellContainer?.dataset.cellIndex;
+    return indexString ? parseInt(indexString, 10) : undefined;
+  }
+
+  /**
+   * Focus a cell again once it's rendered again after its container was removed,
+   * unless the focus has moved somewhere else in the meantime
+   */
+  private restorePendingFocus() {
+    const { pendingFocusIndex } = this;
+    if (pendingFocusIndex === undefined) return;
+    const cellContainer = this.cellContainerForIndex(pendingFocusIndex);
+    if (!cellContainer) return;
+    this.pendingFocusIndex = undefined;
+    if (!this.focusLost) cellContainer.focus({ preventScroll: true });
+  }
+
+  /**
+   * Whether nothing has the focus, as when the focused cell was removed,
+   * looking into the shadow roots the scroller may be nested in
+   */
+  private get focusLost(): boolean {
+    if (this.shadowRoot?.activeElement) return false;
+    let focusedElement = document.activeElement;
+    while (focusedElement?.shadowRoot?.activeElement) {
+      focusedElement = focusedElement.shadowRoot.activeElement;
+    }
+    return !focusedElement || focusedElement === document.body;
+  }
+
+  /**
+   * Start or stop observing the cell sizes when switching to or from the
+   * `masonry` layout, clearing the row spans when leaving it
+   */
+  private setupMasonry(previousLayout?: ScrollerLayout) {
+    this.masonryResizeObserver?.disconnect();
+    this.masonryResizeObserver = undefined;
+    if (this.layout !== 'masonry') {
+      if (previousLayout !== 'masonry') return;
+      this.masonryItems.forEach(masonryItem => {
+        masonryItem.style.removeProperty('grid-row-end');
+      });
+      return;
+    }
+    this.masonryResizeObserver = new ResizeObserver(entries => {
+      entries.forEach(entry =>
+        this.updateMasonrySpan(entry.target as HTMLElement)
+      );
+    });
+    this.masonryItems.forEach(masonryItem =>
+      this.masonryResizeObserver?.observe(masonryItem)
+    );
+  }
+
+  /**
+   * The elements in the masonry grid that span rows of their own height
+   */
+  private get masonryItems(): HTMLElement[] {
+    return [...this.cellContainers, ...this.sectionHeaders];
+  }
+
+  /**
+   * Make a masonry cell span as many grid rows as its content (and the gap below it) needs
+   */
+  private updateMasonrySpan(cellContainer: HTMLElement) {
+    const { marginBottom } = getComputedStyle(cellContainer);
+    const height = cellContainer.offsetHeight + (parseFloat(marginBottom) || 0);
+    const span = Math.max(1, Math.ceil(height / masonryRowHeight));
+    cellContainer.style.setProperty('grid-row-end', `span ${span}`);
+  }
+
+  /**
+   * Measure the column count again after the layout may have changed, eg. when
+   * the cells resized, re-rendering if it changed so the rows are realigned
+   */
+  private updateColumnCount() {
+    // when virtualized, the column count is measured along with the rows
+    if (this.virtualizationActive) return;
+    const columnCount = this.measureColumnCount();
+    if (columnCount === this.columnCount) return;
+    this.columnCount = columnCount;
+    this.requestUpdate();
+  }
+
+  /**
+   * Update the column count on the next frame, since re-rendering for it while
+   * the resize observer delivers its entries would resize the cells again
+   */
+  private scheduleColumnCountUpdate() {
+    if (this.columnCountFrame !== undefined) return;
+    this.columnCountFrame = requestAnimationFrame(() => {
+      this.columnCountFrame = undefined;
+      this.updateColumnCount();
+    });
+  }
+
+  /**
+   * The number of columns in the grid as currently laid out, which forces
+   * a style recalculation so use the `columnCount` it's cached in instead
+   */
+  private measureColumnCount(): number {
+    if (this.layout === 'list' || this.horizontal) return 1;
+    if (!this.container) return this.columnCount;
+    const { gridTemplateColumns } = getComputedStyle(this.container);
+    if (!gridTemplateColumns || gridTemplateColumns === 'none') {
+      return this.columnCount;
+    }
+    return gridTemplateColumns.split(' ').length;
+  }
+
+  private cellSelected(e: Event, index: number) {
+    this.saveScrollState();
+    const event = new CustomEvent<CellSelectionDetails>('cellSelected', {
+      detail: {
+        index,
+        indexPath: this.indexPathForIndex(index),
+        originalEvent: e,
+      },
+    });
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * An array of cell indices that need to be rendered based
+   * on the currently visible cells and the size of the buffer.
+   */
+  private get bufferRange(): number[] {
+    // buffer whole rows so the rows on either end aren't partially rendered
+    const { columnCount } = this;
+    const { leading, trailing } = this.bufferSizesFor(
+      this.visibleCellIndices.size
+    );
+    const cellBufferSize =
+      Math.ceil(Math.max(leading, trailing) / columnCount) * columnCount;
+
+    // a detail panel filling the viewport keeps the cells around it buffered
+    const visibleIndices = Array.from(this.visibleCellIndices);
+    const { detailRowEndIndex } = this;
+    if (this.detailPanelVisible && detailRowEndIndex !== undefined) {
+      visibleIndices.push(detailRowEndIndex);
+    }
+
+    // if there are no visible cells, use the first `cellBufferSize`,
+    // or the rendered window when virtualized
+    const noVisibleCells = visibleIndices.length === 0;
+    if (noVisibleCells && this.virtualizationActive) {
+      const { start, end } = this.materializedWindow;
+      return generateRange(start, end, 1);
+    }
+    if (noVisibleCells) return generateRange(0, cellBufferSize, 1);
+
+    const minVisibleIndex = Math.min(...visibleIndices);
+    const maxVisibleIndex = Math.max(...visibleIndices);
+    const { start, end } = this.rowAlignedWindow(
+      minVisibleIndex - leading,
+      maxVisibleIndex + trailing
+    );
+    return generateRange(start, end, 1);
+  }
+
+  private handleScroll = () => {
+    const position = this.scrollPosition;
+    const { lastScrollPosition } = this;
+    if (lastScrollPosition !== undefined && position !== lastScrollPosition) {
+      this.scrollDirection =
+        position > lastScrollPosition ? 'forward' : 'backward';
+    }
+    this.lastScrollPosition = position;
+    this.scrollVelocity.update(position, performance.now());
+    this.updateFlinging();
+    window.clearTimeout(this.scrollSettleTimer);
+    this.scrollSettleTimer = window.setTimeout(
+      () => this.scrollSettled(),
+      scrollSettleDelay
+    );
+    this.scheduleCellWindowUpdate();
+  };
+
+  /**
+   * Once the scrolling stops, render the cells that were skipped while
+   * flinging and emit a `scrollSettled` event
+   */
+  private scrollSettled() {
+    this.scrollVelocity.reset();
+    this.updateFlinging();
+    const { first, last } = this.visibleIndexBounds;
+    const event = new CustomEvent<ScrollSettledDetails>('scrollSettled', {
+      detail: {
+        firstVisibleIndex: first,
+        lastVisibleIndex: last,
+        scrollDirection: this.scrollDirection,
+      },
+    });
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * The first and last visible indices, if any cells are visible
+   */
+  private get visibleIndexBounds(): { first?: number; last?: number } {
+    if (this.visibleCellIndices.size === 0) return {};
+    return {
+      first: Math.min(...this.visibleCellIndices),
+      last: Math.max(...this.visibleCellIndices),
+    };
+  }
+
+  /**
+   * Start or stop rendering placeholders only, depending on the scroll velocity
+   */
+  private updateFlinging() {
+    const { velocityAdaptive, flingVelocity = 5 } = this.bufferPolicy;
+    const flinging =
+      !!velocityAdaptive &&
+      Math.abs(this.scrollVelocity.velocity) > flingVelocity;
+    if (flinging === this.flinging) return;
+    this.flinging = flinging;
+    if (!flinging && !this.scrollOptimizationsDisabled) {
+      this.processVisibleCells();
+    }
+  }
+
+  /**
+   * The current scroll offset of the scroll root along the scroll axis
+   */
+  private get scrollPosition(): number {
+    const { scrollRoot } = this;
+    if (this.horizontal) return scrollRoot?.scrollLeft ?? window.scrollX;
+    return scrollRoot?.scrollTop ?? window.scrollY;
+  }
+
+  /**
+   * How many cells to render before and after the given number of visible
+   * cells, according to the buffer policy and the scroll velocity
+   */
+  private bufferSizesFor(visibleCount: number): {
+    leading: number;
+    trailing: number;
+  } {
+    const {
+      leadingCells,
+      trailingCells,
+      overscanPixels,
+      overscanViewports,
+      velocityAdaptive,
+      fastScrollVelocity = 1,
+      fastScrollMultiplier = 3,
+    } = this.bufferPolicy;
+    const defaultSize = Math.max(minimumCellBufferSize, visibleCount);
+
+    // estimate the overscan in cells from how many cells fill the viewport
+    const { start, end } = this.viewportBounds;
+    const viewportSize = Math.max(1, end - start);
+    const viewportCells = this.cellsPerViewport(visibleCount, viewportSize);
+    const overscanCells = Math.ceil(
+      Math.max(
+        ((overscanPixels ?? 0) / viewportSize) * viewportCells,
+        (overscanViewports ?? 0) * viewportCells
+      )
+    );
+
+    let leading = Math.max(leadingCells ?? defaultSize, overscanCells);
+    let trailing = Math.max(trailingCells ?? defaultSize, overscanCells);
+
+    const { velocity } = this.scrollVelocity;
+    if (velocityAdaptive && Math.abs(velocity) > fastScrollVelocity) {
+      if (velocity > 0) {
+        trailing *= fastScrollMultiplier;
+      } else {
+        leading *= fastScrollMultiplier;
+      }
+    }
+    return { leading, trailing };
+  }
+
+  /**
+   * Roughly how many cells fill the viewport: the visible ones, or before any
+   * are visible, as many as fit at the estimated cell size
+   */
+  private cellsPerViewport(visibleCount: number, viewportSize: number): number {
+    if (visibleCount > 0) return visibleCount;
+    const cellSize = this.estimatedCellSize;
+    if (!cellSize) return 0;
+    return Math.ceil(viewportSize / cellSize) * this.columnCount;
+  }
+
+  /**
+   * The size of a cell along the scroll axis, from the measured rows or else
+   * the provider's estimate or the first cell container
+   */
+  private get estimatedCellSize(): number | undefined {
+    if (this.rowStride > 0 && !this.horizontal) return this.rowStride;
+    const provider = this.dataSource ?? this.cellProvider;
+    const estimatedSize = provider?.estimatedSizeForIndex?.(
+      this.sourceIndexForIndex(0)
+    );
+    if (estimatedSize) return estimatedSize;
+    const firstCell = this.cellContainers[0];
+    return firstCell ? this.sizeAlongAxis(firstCell) : undefined;
+  }
+
+  private handleTouchStart = (e: TouchEvent) => {
+    if (!this.pullToRefreshAvailable) return;
+    this.pullGesture.touchStart(e.touches[0].clientY, this.scrollPosition <= 0);
+  };
+
+  private handleTouchMove = (e: TouchEvent) => {
+    if (!this.pullToRefreshAvailable) return;
+    this.pullDistance = this.pullGesture.touchMove(e.touches[0].clientY);
+    this.updateRefreshIndicator();
+  };
+
+  private handleTouchEnd = () => {
+    if (!this.pullToRefreshAvailable) return;
+    this.pullDistance = 0;
+    this.updateRefreshIndicator();
+    if (this.pullGesture.touchEnd()) this.requestRefresh();
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    if (!this.pullToRefreshAvailable) return;
+    const atTop = this.scrollPosition <= 0;
+    const { start, end } = this.viewportBounds;
+    if (
+      this.pullGesture.wheel(
+        e.deltaY,
+        e.deltaMode,
+        e.timeStamp,
+        atTop,
+        end - start
+      )
+    ) {
+      this.requestRefresh();
+    }
+  };
+
+  /**
+   * Whether the cells can be pulled down to refresh right now
+   */
+  private get pullToRefreshAvailable(): boolean {
+    return this.pullToRefreshEnabled && !this.horizontal && !this.refreshing;
+  }
+
+  /**
+   * Contain the overscroll of the scroll container while pull-to-refresh is on,
+   * since the passive touch and wheel listeners can't stop the browser's own
+   * overscroll effects, eg. its pull-to-refresh, from kicking in as well. The
+   * document belongs to the page, so that's left to the consumer.
+   */
+  private updateOverscrollBehavior() {
+    const target =
+      this.isConnected && this.pullToRefreshEnabled && !this.horizontal
+        ? this.scrollRoot ?? undefined
+        : undefined;
+    if (target === this.overscrollContainedElement) return;
+    this.overscrollContainedElement?.style.removeProperty(
+      'overscroll-behavior-y'
+    );
+    target?.style.setProperty('overscroll-behavior-y', 'contain');
+    this.overscrollContainedElement = target;
+  }
+
+  /**
+   * Show the refresh indicator until the consumer completes the refresh
+   */
+  private requestRefresh() {
+    this.refreshing = true;
+    const complete = () => {
+      this.refreshing = false;
+    };
+    const event = new CustomEvent<RefreshRequestedDetails>('refreshRequested', {
+      detail: { complete },
+    });
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * The indicator that grows as the cells are pulled down and
+   * stays while refreshing, sized by `updateRefreshIndicator()`
+   */
+  private get refreshIndicatorTemplate() {
+    if (!this.pullToRefreshEnabled || this.horizontal) return nothing;
+    return html`
+      <div
+        id="refresh-indicator"
+        role="status"
+        aria-hidden="true"
+        style="height: 0"
+      >
+        <slot name="refresh-indicator"><span id="refresh-label"></span></slot>
+      </div>
+    `;
+  }
+
+  /**
+   * Size the refresh indicator to how far the cells are pulled down,
+   * or to the threshold while refreshing, and label it to match
+   */
+  private updateRefreshIndicator() {
+    const { refreshIndicator, refreshLabel, refreshing, pullDistance } = this;
+    if (!refreshIndicator) return;
+    const height = refreshing ? pullToRefreshThreshold : pullDistance;
+    refreshIndicator.style.height = `${height}px`;
+    refreshIndicator.setAttribute('aria-hidden', height > 0 ? 'false' : 'true');
+    if (!refreshLabel) return;
+    let label = 'Pull to refresh';
+    if (refreshing) {
+      label = 'Refreshing…';
+    } else if (pullDistance >= pullToRefreshThreshold) {
+      label = 'Release to refresh';
+    }
+    refreshLabel.textContent = label;
+  }
+
+  /**
+   * The footer after the cells for loading more, the end of the items
+   * or no items at all
+   */
+  private get footerTemplate() {
+    if (this.loading) {
+      return html`
+        <div id="loading-footer" class="scroller-footer" role="status">
+          <slot name="loading-footer">Loading…</slot>
+        </div>
+      `;
+    }
+    if (this.hasMore) return nothing;
+    if (this.itemCount === 0) {
+      return html`
+        <div id="empty-state" class="scroller-footer">
+          <slot name="empty-state"></slot>
+        </div>
+      `;
+    }
+    return html`
+      <div id="end-footer" class="scroller-footer">
+        <slot name="end-footer"></slot>
+      </div>
+    `;
+  }
+
+  /**
+   * The sticky pill showing how many new items are waiting at the start
+   */
+  private get newItemsPillTemplate() {
+    const count = this.pendingNewItemCount;
+    // the new items can't be inserted into a view
+    if (count <= 0 || this.viewIndices) return nothing;
+    return html`
+      <div id="new-items-bar">
+        <button id="new-items-pill" @click=${() => this.showNewItems()}>
+          <slot name="new-items-pill">
+            ${count} new ${count === 1 ? 'item' : 'items'}
+          </slot>
+        </button>
+      </div>
+    `;
   }
 
-  updated(changed: PropertyValues) {
-    if (
-      changed.has('itemCount') ||
-      changed.has('scrollOptimizationsDisabled')
-    ) {
-      this.setupObservations();
+  /**
+   * The scrubber along the side of the viewport, with the bubble previewing
+   * where it would jump to while it's dragged
+   */
+  private get scrubberTemplate() {
+    if (!this.scrubberEnabled || this.horizontal || this.itemCount <= 1) {
+      return nothing;
     }
+    return html`
+      <div id="scrubber-bar">
+        <div
+          id="scrubber"
+          aria-hidden="true"
+          style=${styleMap({ height: `${this.scrubberLength}px` })}
+          @pointerdown=${this.scrubberPointerDown}
+        >
+          <div id="scrubber-thumb">
+            <div id="scrubber-bubble" hidden></div>
+          </div>
+        </div>
+      </div>
+    `;
   }
 
-  disconnectedCallback() {
-    this.intersectionObserver.disconnect();
+  /**
+   * The consumer's label for an index, or its position otherwise
+   */
+  private scrubLabelForIndex(index: number): string {
+    const provider = this.dataSource ?? this.cellProvider;
+    const label = provider?.labelForIndex?.(this.sourceIndexForIndex(index));
+    return label ?? `${index + 1}`;
   }
 
   /**
-   * The indices of cells that have been rendered
-   *
-   * @private
-   * @memberof InfiniteScroller
+   * Observes the size of the scroll root, or the document when scrolling with
+   * the viewport, to match the scrubber's track to it. Resizing the window
+   * doesn't always resize the document, so that's listened for as well.
    */
-  private renderedCellIndices = new Set<number>();
+  private scrubberResizeObserver?: ResizeObserver;
 
   /**
-   * The indices of cells that are visible
-   *
-   * @private
-   * @memberof InfiniteScroller
+   * Start measuring the scrubber's track for the current scroll root, which
+   * measures it straight away as well
    */
-  private visibleCellIndices = new Set<number>();
+  private observeScrubberTrack() {
+    this.scrubberResizeObserver?.disconnect();
+    if (!this.scrubberEnabled) return;
+    if (!this.scrubberResizeObserver) {
+      this.scrubberResizeObserver = new ResizeObserver(this.measureScrubber);
+    }
+    this.scrubberResizeObserver.observe(
+      this.scrollRoot ?? document.documentElement
+    );
+  }
 
   /**
-   * The indices of cells that have placeholders in them
-   *
-   * @private
-   * @memberof InfiniteScroller
+   * Match the scrubber's track to the height of the viewport
    */
-  private placeholderCellIndices = new Set<number>();
+  private measureScrubber = () => {
+    if (!this.scrubberEnabled) return;
+    const { start, end } = this.viewportBounds;
+    this.scrubberLength = Math.max(0, end - start);
+  };
 
   /**
-   * Add observations for all of the things that need observing
-   *
-   * @private
-   * @memberof InfiniteScroller
+   * Move the scrubber's thumb to the index it's dragged over, showing its
+   * label in the bubble, or to the first visible cell otherwise
    */
-  private setupObservations() {
-    this.setupIntersectionObserver();
+  private positionScrubberThumb() {
+    const { scrubberThumb, scrubberBubble, scrubIndex } = this;
+    if (!scrubberThumb) return;
+    if (scrubberBubble) {
+      scrubberBubble.hidden = scrubIndex === undefined;
+      scrubberBubble.textContent =
+        scrubIndex !== undefined ? this.scrubLabelForIndex(scrubIndex) : '';
+    }
+    const index =
+      scrubIndex ?? Math.min(...Array.from(this.visibleCellIndices));
+    if (!Number.isFinite(index)) return;
+    const fraction = scrubFractionForIndex(index, this.itemCount);
+    scrubberThumb.style.setProperty('--scrubberFraction', `${fraction}`);
   }
 
   /**
-   * The intersection observer is used to determine when cells are visible
-   * so we can efficiently render only the minimum number of cells
+   * Start scrubbing, following the pointer outside of the scrubber until it's let go
    */
-  private setupIntersectionObserver() {
-    this.intersectionObserver.disconnect();
+  private scrubberPointerDown = (e: PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    this.scrubIndex = this.scrubIndexForPointer(e);
+    this.positionScrubberThumb();
+    window.addEventListener('pointermove', this.scrubberPointerMove);
+    window.addEventListener('pointerup', this.scrubberPointerUp);
+    window.addEventListener('pointercancel', this.endScrubbing);
+  };
 
-    // observe the sentinel
-    // the sentinel is an optional because `reload()` can be called before
-    // the DOM is ready so it may not be in the DOM yet
-    // subsequent calls to `reload()` will re-observe the sentinel
-    if (this.sentinel) this.intersectionObserver.observe(this.sentinel);
+  private scrubberPointerMove = (e: PointerEvent) => {
+    if (this.scrubIndex === undefined) return;
+    const index = this.scrubIndexForPointer(e);
+    if (index === this.scrubIndex) return;
+    this.scrubIndex = index;
+    this.positionScrubberThumb();
+  };
 
-    // if scroll optimizations are disabled, just add all of the datasource
-    // indices to the visibleCells and process them immediately,
-    // otherwise add all of the cells to the intersection observer to optimize
-    // the scrolling experience
-    if (this.scrollOptimizationsDisabled) {
-      const indexArray = generateRange(0, Math.max(0, this.itemCount - 1), 1);
-      indexArray.forEach(index => this.visibleCellIndices.add(index));
-      this.processVisibleCells();
-    } else {
-      // if scroll optimizations are enabled, observe all of the cell containers
-      this.cellContainers.forEach(cell =>
-        this.intersectionObserver.observe(cell)
-      );
-    }
-  }
+  private scrubberPointerUp = (e: PointerEvent) => {
+    if (this.scrubIndex === undefined) return;
+    const index = this.scrubIndexForPointer(e);
+    this.endScrubbing();
+    this.requestScrub(index);
+  };
 
-  render(): TemplateResult {
-    const finalIndex = this.itemCount - 1;
-    const indexArray = generateRange(0, finalIndex, 1);
-    const containerAriaLabel = this.ariaLandmarkLabel ?? nothing;
-    return html`
-      <section id="container" role="feed" aria-label=${containerAriaLabel}>
-        <div id="sentinel" aria-hidden="true"></div>
-        ${repeat(
-          indexArray,
-          index => index,
-          index => html`
-            <article
-              class="cell-container"
-              aria-posinset=${index + 1}
-              aria-setsize=${this.itemCount}
-              data-cell-index=${index}
-              @click=${(e: Event) => this.cellSelected(e, index)}
-              @keyup=${(e: KeyboardEvent) => {
-                if (e.key === 'Enter') this.cellSelected(e, index);
-              }}
-            ></article>
-          `
-        )}
-        <slot name="result-last-tile"></slot>
-      </section>
-    `;
+  /**
+   * Stop scrubbing without jumping
+   */
+  private endScrubbing = () => {
+    this.scrubIndex = undefined;
+    this.positionScrubberThumb();
+    window.removeEventListener('pointermove', this.scrubberPointerMove);
+    window.removeEventListener('pointerup', this.scrubberPointerUp);
+    window.removeEventListener('pointercancel', this.endScrubbing);
+  };
+
+  /**
+   * The index under the pointer on the scrubber's track
+   */
+  private scrubIndexForPointer(e: PointerEvent): number {
+    const { scrubber } = this;
+    if (!scrubber) return 0;
+    const { top, height } = scrubber.getBoundingClientRect();
+    return scrubIndexAt(e.clientY, top, height, this.itemCount);
   }
 
-  private cellSelected(e: Event, index: number) {
-    const event = new CustomEvent<CellSelectionDetails>('cellSelected', {
+  /**
+   * Emit a `scrubRequested` event and, unless it's cancelled, jump to the
+   * index once the promises passed to its `waitUntil()` have settled
+   */
+  private async requestScrub(index: number) {
+    const pendingWork: Promise<unknown>[] = [];
+    const event = new CustomEvent<ScrubRequestedDetails>('scrubRequested', {
       detail: {
         index,
-        originalEvent: e,
+        indexPath: this.indexPathForIndex(index),
+        waitUntil: promise => {
+          pendingWork.push(promise);
+        },
       },
+      cancelable: true,
     });
-    this.dispatchEvent(event);
+    if (!this.dispatchEvent(event)) return;
+    // jump even if the work failed, the cells show their own errors
+    await Promise.all(pendingWork.map(work => work.catch(() => undefined)));
+    if (index >= this.itemCount) return;
+    await this.scrollToCell(index);
   }
 
   /**
-   * An array of cell indices that need to be rendered based
-   * on the currently visible cells and the size of the buffer.
+   * Throttle window updates from scroll and resize events to one per frame
    */
-  private get bufferRange(): number[] {
-    const cellBufferSize = Math.max(10, this.visibleCellIndices.size);
+  private scheduleCellWindowUpdate = () => {
+    if (!this.virtualizationActive || this.cellWindowFrame !== undefined) {
+      return;
+    }
+    this.cellWindowFrame = requestAnimationFrame(() => {
+      this.cellWindowFrame = undefined;
+      this.updateCellWindow();
+    });
+  };
+
+  /**
+   * Move the window of rendered cell containers to cover the cells
+   * estimated to be in the viewport plus a buffer on either side
+   */
+  private updateCellWindow() {
+    if (!this.virtualizationActive) return;
+    const { start, end } = this.estimatedVisibleRange();
+    const nextWindow = this.windowAroundIndices(start, end);
+    const { start: currentStart, end: currentEnd } = this.materializedWindow;
+    if (nextWindow.start === currentStart && nextWindow.end === currentEnd) {
+      return;
+    }
+    this.cellWindow = nextWindow;
+  }
+
+  /**
+   * The row-aligned window covering the given indices plus a buffer on either side
+   */
+  private windowAroundIndices(start: number, end: number): CellWindow {
+    const { leading, trailing } = this.bufferSizesFor(end - start + 1);
+    return this.rowAlignedWindow(start - leading, end + trailing);
+  }
+
+  /**
+   * Estimate the range of cell indices in the viewport from the scroll
+   * position, the rendered cells and the measured row height, which works
+   * even when the viewport is entirely over a spacer
+   */
+  private estimatedVisibleRange(): CellWindow {
+    const lastIndex = this.itemCount - 1;
+    if (!this.container || lastIndex < 0 || this.rowStride <= 0) {
+      const { start, end } = this.materializedWindow;
+      return { start, end: Math.min(end, start + minimumCellBufferSize) };
+    }
+    const containerTop = this.container.getBoundingClientRect().top;
+    const viewport = this.viewportBounds;
+    const viewportTop = Math.max(0, viewport.start - containerTop);
+    const viewportBottom = Math.max(0, viewport.end - containerTop);
+    const firstRow = this.rowAtOffset(viewportTop);
+    const lastRow = this.rowAtOffset(viewportBottom);
+    return {
+      start: Math.min(firstRow * this.columnCount, lastIndex),
+      end: Math.min((lastRow + 1) * this.columnCount - 1, lastIndex),
+    };
+  }
+
+  /**
+   * The row at the given vertical offset from the top of the container,
+   * using the rendered cells where there are any and the row height otherwise
+   */
+  private rowAtOffset(offset: number): number {
+    const { columnCount, rowStride } = this;
+    const totalRows = Math.ceil(this.itemCount / columnCount);
+    const { start, end } = this.materializedWindow;
+    const firstRenderedRow = Math.floor(start / columnCount);
+    const lastRenderedRow = Math.floor(end / columnCount);
+    const firstCell = this.cellContainerForIndex(start);
+    const lastCell = this.cellContainerForIndex(end);
+    if (!firstCell || !lastCell) {
+      return Math.min(Math.floor(offset / rowStride), totalRows - 1);
+    }
+
+    if (offset < firstCell.offsetTop) {
+      return Math.min(Math.floor(offset / rowStride), firstRenderedRow);
+    }
+
+    const renderedBottom = lastCell.offsetTop + lastCell.offsetHeight;
+    if (offset > renderedBottom) {
+      const rowsPastWindow = Math.floor(
+        (offset - renderedBottom - this.rowGap) / rowStride
+      );
+      return Math.min(lastRenderedRow + 1 + rowsPastWindow, totalRows - 1);
+    }
+
+    const rowStart = generateRange(firstRenderedRow, lastRenderedRow, 1).find(
+      row => {
+        const lastCellInRow = this.cellContainerForIndex(
+          Math.min((row + 1) * columnCount - 1, end)
+        );
+        if (!lastCellInRow) return false;
+        return lastCellInRow.offsetTop + lastCellInRow.offsetHeight >= offset;
+      }
+    );
+    return rowStart ?? lastRenderedRow;
+  }
 
-    // if there are no visible cells, use the first `cellBufferSize`
-    const noVisibleCells = this.visibleCellIndices.size === 0;
-    const minVisibleIndex = Math.min(...this.visibleCellIndices);
-    const maxVisibleIndex = Math.max(...this.visibleCellIndices);
+  /**
+   * Measure the column count and average row height from the rendered cell
+   * containers so the spacers can stand in for the unrendered rows
+   */
+  private measureRows() {
+    const containers = Array.from(this.cellContainers);
+    if (!this.container || containers.length === 0) return;
+    const firstTop = containers[0].offsetTop;
+    const columnCount = containers.filter(
+      cell => cell.offsetTop === firstTop
+    ).length;
+    const rowCount = Math.ceil(containers.length / columnCount);
+    const lastCell = containers[containers.length - 1];
+    const rowGap = parseFloat(getComputedStyle(this.container).rowGap) || 0;
+    // the detail panel isn't a row of cells so leave it out of the row height
+    const { detailPanel } = this;
+    const detailSize =
+      detailPanel && detailPanel.offsetTop < lastCell.offsetTop
+        ? detailPanel.offsetHeight + rowGap
+        : 0;
+    const renderedHeight =
+      lastCell.offsetTop + lastCell.offsetHeight - firstTop - detailSize;
+    this.rowGap = rowGap;
+    this.rowStride = (renderedHeight + rowGap) / rowCount;
 
-    const minBufferIndex = noVisibleCells
-      ? 0
-      : Math.max(minVisibleIndex - cellBufferSize, 0);
-    const maxBufferIndex = noVisibleCells
-      ? cellBufferSize
-      : Math.min(maxVisibleIndex + cellBufferSize, this.itemCount - 1);
+    // the window needs to be realigned to the new column count
+    if (columnCount !== this.columnCount) {
+      this.columnCount = columnCount;
+      this.requestUpdate();
+    }
+  }
 
-    return generateRange(minBufferIndex, maxBufferIndex, 1);
+  /**
+   * Forget the state of cells whose containers were removed from the DOM
+   * when the window moved
+   */
+  private pruneCellsOutsideWindow() {
+    const { start, end } = this.materializedWindow;
+    const outsideWindow = (index: number) => index < start || index > end;
+    // the removed containers won't report that they left the viewport
+    Array.from(this.visibleCellIndices)
+      .filter(outsideWindow)
+      .forEach(index => {
+        this.visibleCellRatios.delete(index);
+        this.impressions.indexHidden(index);
+      });
+    [
+      this.renderedCellIndices,
+      this.visibleCellIndices,
+      this.placeholderCellIndices,
+    ].forEach(indices => {
+      Array.from(indices)
+        .filter(outsideWindow)
+        .forEach(index => indices.delete(index));
+    });
   }
 
   /**
@@ -343,17 +4369,119 @@ export class InfiniteScroller
    * @memberof InfiniteScroller
    */
   private processVisibleCells() {
-    const visibleCellArray = Array.from(this.visibleCellIndices);
+    const visibleCellArray = Array.from(this.visibleCellIndices).sort(
+      (a, b) => a - b
+    );
     const { bufferRange } = this;
-    this.renderCellBuffer(bufferRange);
-    this.removeCellsOutsideBufferRange(bufferRange);
+    this.measure('processVisibleCells', () => {
+      // remove the cells first so their DOM can be recycled into the new ones
+      this.measure('removeCellsOutsideBufferRange', () =>
+        this.removeCellsOutsideBufferRange(bufferRange)
+      );
+      this.measure('renderCellBuffer', () =>
+        this.renderCellBuffer(bufferRange)
+      );
+      this.loadBufferItems();
+    });
+
+    const visibleCellsChangedEvent =
+      new CustomEvent<VisibleCellsChangedDetails>('visibleCellsChanged', {
+        detail: {
+          visibleCellIndices: visibleCellArray,
+          fullyVisibleCellIndices: visibleCellArray.filter(
+            index =>
+              (this.visibleCellRatios.get(index) ?? 0) >= fullyVisibleRatio
+          ),
+          firstVisibleIndex: visibleCellArray[0],
+          lastVisibleIndex: visibleCellArray[visibleCellArray.length - 1],
+          intersectionRatios: this.intersectionRatios,
+          scrollDirection: this.scrollDirection,
+          visibleIndexPaths: this.visibleIndexPaths(visibleCellArray),
+          expandedDetailVisible: this.detailPanelVisible,
+        },
+      });
+    this.dispatchEvent(visibleCellsChangedEvent);
+    this.updateDebugOverlay();
+    this.emitScrollerMetrics();
+    this.positionScrubberThumb();
+  }
 
-    const visibleCellsChangedEvent = new CustomEvent('visibleCellsChanged', {
+  /**
+   * Do some work, measuring it when instrumentation is enabled
+   */
+  private measure<T>(name: string, work: () => T): T {
+    const { instrumentation } = this;
+    return instrumentation ? instrumentation.measure(name, work) : work();
+  }
+
+  /**
+   * Emit how many cells are in each state and what was counted since the last time
+   */
+  private emitScrollerMetrics() {
+    const { instrumentation } = this;
+    if (!instrumentation) return;
+    const event = new CustomEvent<ScrollerMetricsDetails>('scrollerMetrics', {
       detail: {
-        visibleCellIndices: visibleCellArray,
+        renderedCellCount: this.renderedCellIndices.size,
+        placeholderCellCount: this.placeholderCellIndices.size,
+        visibleCellCount: this.visibleCellIndices.size,
+        ...instrumentation.takeCounts(),
       },
     });
-    this.dispatchEvent(visibleCellsChangedEvent);
+    this.dispatchEvent(event);
+  }
+
+  /**
+   * Mark each cell with its state for the debug overlay to color it by,
+   * when the overlay is enabled
+   */
+  private updateDebugOverlay() {
+    if (!this.debugOverlayEnabled) return;
+    this.cellContainers.forEach(cellContainer => {
+      const index = Number(cellContainer.dataset.cellIndex);
+      let debugState = 'removed';
+      if (this.visibleCellIndices.has(index)) {
+        debugState = 'visible';
+      } else if (this.placeholderCellIndices.has(index)) {
+        debugState = 'placeholder';
+      } else if (this.renderedCellIndices.has(index)) {
+        debugState = 'buffered';
+      }
+      cellContainer.setAttribute('data-debug-state', debugState);
+    });
+  }
+
+  /**
+   * Remove the debug overlay's marks once it has been disabled
+   */
+  private clearDebugOverlay() {
+    this.cellContainers.forEach(cellContainer =>
+      cellContainer.removeAttribute('data-debug-state')
+    );
+  }
+
+  /**
+   * How much of each visible cell is within the viewport, keyed by index
+   */
+  private get intersectionRatios(): Record<number, number> {
+    const ratios: Record<number, number> = {};
+    this.visibleCellRatios.forEach((ratio, index) => {
+      ratios[index] = ratio;
+    });
+    return ratios;
+  }
+
+  /**
+   * The sections and items of the given visible cells, when sectioned
+   */
+  private visibleIndexPaths(
+    visibleCellIndices: number[]
+  ): SectionIndexPath[] | undefined {
+    const { sectionIndex } = this;
+    if (!sectionIndex) return undefined;
+    return visibleCellIndices
+      .map(index => sectionIndex.indexPathForIndex(index))
+      .filter((indexPath): indexPath is SectionIndexPath => !!indexPath);
   }
 
   /**
@@ -368,18 +4496,39 @@ export class InfiniteScroller
       if (this.renderedCellIndices.has(index)) return;
       const cellContainer = this.cellContainerForIndex(index);
       if (!cellContainer) return;
-      const template = this.cellProvider?.cellForIndex(index);
-      // When a cell is visible, the height should be auto-calculated.
-      // When we remove the cell below, the height gets fixed to the last known size
-      // so the scroll doesn't jump around.
-      cellContainer.style.height = 'auto';
+      if (this.failedCellErrors.has(index)) {
+        this.releasePrerenderedCell(index);
+        cellContainer.style.setProperty(this.sizeProperty, 'auto');
+        this.renderIntoCellContainer(
+          this.errorTemplateForIndex(index),
+          cellContainer
+        );
+        this.renderedCellIndices.add(index);
+        this.placeholderCellIndices.delete(index);
+        return;
+      }
+      // while flinging, the cells scroll by too fast to be seen, so only
+      // render placeholders until the scrolling settles
+      const template = this.flinging
+        ? undefined
+        : this.cellTemplateForIndex(index);
+      // When a cell is visible, the height (or width when horizontal) should be
+      // auto-calculated. When we remove the cell below, it gets fixed to the last
+      // known size so the scroll doesn't jump around.
+      cellContainer.style.setProperty(this.sizeProperty, 'auto');
       if (template) {
-        render(template, cellContainer);
+        this.releasePrerenderedCell(index);
+        this.renderCellContent(index, template, cellContainer);
         this.renderedCellIndices.add(index);
+        this.instrumentation?.cellRendered();
         this.placeholderCellIndices.delete(index);
       } else {
         if (this.placeholderCellIndices.has(index)) return;
-        render(this.placeholderCellTemplate, cellContainer);
+        this.releasePrerenderedCell(index);
+        this.renderIntoCellContainer(
+          this.placeholderCellTemplate,
+          cellContainer
+        );
         this.placeholderCellIndices.add(index);
       }
     });
@@ -405,13 +4554,26 @@ export class InfiniteScroller
   private removeCell(index: number) {
     const cellContainer = this.cellContainerForIndex(index);
     if (!cellContainer) return;
+    // keep the focus on the cell if it's on the content being removed
+    const focusedElement = this.shadowRoot?.activeElement;
+    if (
+      focusedElement &&
+      focusedElement !== cellContainer &&
+      cellContainer.contains(focusedElement)
+    ) {
+      cellContainer.focus({ preventScroll: true });
+    }
     // just before we remove the contents of the cell, we want to hardcode the height
-    // so the scroll doesn't jump around when the cell shrinks due to content removal
-    const height = cellContainer.offsetHeight;
-    cellContainer.style.height = `${height}px`;
-    render(nothing, cellContainer);
+    // (or width when horizontal) so the scroll doesn't jump around when the cell
+    // shrinks due to content removal
+    const size = this.sizeAlongAxis(cellContainer);
+    cellContainer.style.setProperty(this.sizeProperty, `${size}px`);
+    this.cellSizes.set(index, size);
+    this.releasePrerenderedCell(index);
+    this.renderIntoCellContainer(nothing, cellContainer);
     this.renderedCellIndices.delete(index);
     this.placeholderCellIndices.delete(index);
+    this.instrumentation?.cellRemoved();
   }
 
   private cellContainerForIndex(index: number): HTMLDivElement | null {
@@ -422,6 +4584,7 @@ export class InfiniteScroller
 
   static get styles(): CSSResultGroup {
     const sentinelHeightCss = css`var(--infiniteScrollerSentinelDistanceFromEnd, 200rem)`;
+    const startSentinelHeightCss = css`var(--infiniteScrollerSentinelDistanceFromStart, 200rem)`;
     const rowGapSizeCss = css`var(--infiniteScrollerRowGap, 1.7rem)`;
     const colGapSizeCss = css`var(--infiniteScrollerColGap, 1.7rem)`;
     const cellMinWidth = css`var(--infiniteScrollerCellMinWidth, 16rem)`;
@@ -429,8 +4592,21 @@ export class InfiniteScroller
     const cellMinHeight = css`var(--infiniteScrollerCellMinHeight, 22.5rem)`;
     const cellMaxHeight = css`var(--infiniteScrollerCellMaxHeight, none)`;
     const cellOutline = css`var(--infiniteScrollerCellOutline, 0)`;
+    const scrubberWidthCss = css`var(--infiniteScrollerScrubberWidth, 1.2rem)`;
+    const scrubberThumbColorCss = css`var(--infiniteScrollerScrubberThumbColor, #194880)`;
+    const dropIndicatorColorCss = css`var(--infiniteScrollerDropIndicatorColor, #194880)`;
+    const newItemsPillOffsetCss = css`var(--infiniteScrollerNewItemsPillOffset, 1rem)`;
+    const sectionHeaderOffsetCss = css`var(--infiniteScrollerSectionHeaderOffset, 0)`;
+    const sectionHeaderBackgroundCss = css`var(--infiniteScrollerSectionHeaderBackground, #fff)`;
+    const cellFocusOutline = css`var(--infiniteScrollerCellFocusOutline, 2px solid Highlight)`;
+    const cellSelectedOutline = css`var(--infiniteScrollerCellSelectedOutline, 2px solid Highlight)`;
+    const masonryRowHeightCss = unsafeCSS(`${masonryRowHeight}px`);
 
     return css`
+      :host {
+        display: block;
+      }
+
       #container {
         position: relative;
         display: flex;
@@ -439,6 +4615,8 @@ export class InfiniteScroller
         row-gap: ${rowGapSizeCss};
         grid-column-gap: ${colGapSizeCss};
         column-gap: ${colGapSizeCss};
+        /* the scroller keeps the cells in place itself when the cells before them resize */
+        overflow-anchor: none;
       }
 
       @supports (display: grid) {
@@ -452,6 +4630,46 @@ export class InfiniteScroller
         }
       }
 
+      @supports (display: grid) {
+        #container.layout-list {
+          grid-template-columns: minmax(0, 1fr);
+        }
+
+        /* the masonry cells span rows of their own height so the gap is a margin instead */
+        #container.layout-masonry {
+          grid-auto-rows: ${masonryRowHeightCss};
+          grid-row-gap: 0;
+          row-gap: 0;
+        }
+
+        #container.layout-masonry .cell-container,
+        #container.layout-masonry .section-header {
+          align-self: start;
+          margin-bottom: ${rowGapSizeCss};
+        }
+
+        /* the masonry cells are only as tall as their content */
+        #container.layout-masonry .cell-container {
+          min-height: 0;
+        }
+      }
+
+      .cell-spacer,
+      .scroller-footer,
+      #detail-panel {
+        grid-column: 1 / -1;
+        width: 100%;
+      }
+
+      /* the headers of all sections stick, each covering the one before */
+      .section-header {
+        grid-column: 1 / -1;
+        position: sticky;
+        top: ${sectionHeaderOffsetCss};
+        z-index: 1;
+        background: ${sectionHeaderBackgroundCss};
+      }
+
       .cell-container {
         outline: ${cellOutline};
         min-height: ${cellMinHeight};
@@ -460,6 +4678,57 @@ export class InfiniteScroller
         max-width: ${cellMaxWidth};
       }
 
+      .recycled-cell,
+      .prerendered-cell {
+        display: contents;
+      }
+
+      .cell-container[aria-selected='true'] {
+        outline: ${cellSelectedOutline};
+      }
+
+      :host([reorderenabled]) .cell-container {
+        cursor: grab;
+        user-select: none;
+      }
+
+      .cell-container.dragging {
+        opacity: 0.5;
+      }
+
+      :host([debugoverlayenabled]) .cell-container {
+        outline-offset: -2px;
+      }
+
+      :host([debugoverlayenabled]) .cell-container[data-debug-state='visible'] {
+        outline: 2px solid #2e7d32;
+      }
+
+      :host([debugoverlayenabled])
+        .cell-container[data-debug-state='buffered'] {
+        outline: 2px solid #1565c0;
+      }
+
+      :host([debugoverlayenabled])
+        .cell-container[data-debug-state='placeholder'] {
+        outline: 2px solid #ef6c00;
+      }
+
+      :host([debugoverlayenabled]) .cell-container[data-debug-state='removed'] {
+        outline: 2px dashed #9e9e9e;
+      }
+
+      #drop-indicator {
+        position: absolute;
+        z-index: 3;
+        pointer-events: none;
+        background: ${dropIndicatorColorCss};
+      }
+
+      .cell-container:focus-visible {
+        outline: ${cellFocusOutline};
+      }
+
       @supports (display: grid) {
         /* the grid takes care of the width */
         .cell-container {
@@ -483,6 +4752,127 @@ export class InfiniteScroller
         */
         overflow-anchor: none;
       }
+
+      #start-sentinel {
+        position: absolute;
+        height: ${startSentinelHeightCss};
+        top: 0;
+        left: 0;
+        right: 0;
+        z-index: -1;
+        overflow-anchor: none;
+      }
+
+      #refresh-indicator {
+        display: flex;
+        align-items: flex-end;
+        justify-content: center;
+        overflow: hidden;
+      }
+
+      /* the bar takes no space so the pill floats over the cells */
+      #new-items-bar {
+        position: sticky;
+        top: ${newItemsPillOffsetCss};
+        z-index: 2;
+        height: 0;
+        display: flex;
+        justify-content: center;
+        overflow: visible;
+      }
+
+      #new-items-pill {
+        cursor: pointer;
+      }
+
+      /* the bar takes no space so the scrubber floats over the cells */
+      #scrubber-bar {
+        position: sticky;
+        top: 0;
+        z-index: 2;
+        height: 0;
+        overflow: visible;
+      }
+
+      #scrubber {
+        position: absolute;
+        top: 0;
+        right: 0;
+        width: ${scrubberWidthCss};
+        touch-action: none;
+        cursor: pointer;
+      }
+
+      #scrubber-thumb {
+        position: absolute;
+        right: 0;
+        top: calc(var(--scrubberFraction, 0) * 100%);
+        transform: translateY(calc(var(--scrubberFraction, 0) * -100%));
+        width: 100%;
+        height: 3rem;
+        border-radius: 0.4rem;
+        background: ${scrubberThumbColorCss};
+      }
+
+      #scrubber-bubble {
+        position: absolute;
+        right: calc(100% + 0.8rem);
+        top: 50%;
+        transform: translateY(-50%);
+        padding: 0.4rem 0.8rem;
+        border-radius: 0.4rem;
+        white-space: nowrap;
+        color: #fff;
+        background: ${scrubberThumbColorCss};
+      }
+
+      :host([scrollcontainer='self']) {
+        overflow-y: auto;
+      }
+
+      /* horizontal carousels scroll within themselves along a single row */
+      :host([orientation='horizontal']) {
+        overflow-x: auto;
+        overflow-y: hidden;
+      }
+
+      :host([orientation='horizontal']) #container {
+        flex-wrap: nowrap;
+        grid-auto-flow: column;
+        grid-template-columns: none;
+        grid-auto-columns: ${cellMinWidth};
+        width: max-content;
+        min-width: 100%;
+      }
+
+      :host([orientation='horizontal']) .scroller-footer {
+        grid-column: auto;
+        width: auto;
+      }
+
+      :host([orientation='horizontal']) .section-header {
+        grid-column: auto;
+        top: auto;
+        left: ${sectionHeaderOffsetCss};
+      }
+
+      :host([orientation='horizontal']) #sentinel {
+        top: 0;
+        bottom: 0;
+        left: auto;
+        right: 0;
+        height: auto;
+        width: ${sentinelHeightCss};
+      }
+
+      :host([orientation='horizontal']) #start-sentinel {
+        top: 0;
+        bottom: 0;
+        left: 0;
+        right: auto;
+        height: auto;
+        width: ${startSentinelHeightCss};
+      }
     `;
   }
 }
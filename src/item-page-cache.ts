@@ -0,0 +1,214 @@
+import {
+  IndexMapping,
+  remapIndexMap,
+  remapIndexSet,
+} from './index-remapping.js';
+import { generateRange } from './range-generator.js';
+
+/**
+ * Fetch the items from `start` to `end` (inclusive), aborting when the signal fires
+ */
+export type ItemRangeFetcher<T> = (
+  start: number,
+  end: number,
+  signal: AbortSignal
+) => Promise<T[]>;
+
+/**
+ * Fetches items in page-aligned batches, dedupes requests for pages that are
+ * already in flight and caches the results by index, evicting the items
+ * furthest from the needed ones once it holds more than `maxCachedPages` pages.
+ */
+export class ItemPageCache<T> {
+  /**
+   * The loaded items keyed by index
+   *
+   * @private
+   * @memberof ItemPageCache
+   */
+  private items = new Map<number, T>();
+
+  /**
+   * The abort controllers for the pages currently being fetched, keyed by page number
+   *
+   * @private
+   * @memberof ItemPageCache
+   */
+  private inFlightPages = new Map<number, AbortController>();
+
+  /**
+   * The indices missing from pages that came back short, which aren't
+   * fetched again until the item count changes
+   *
+   * @private
+   * @memberof ItemPageCache
+   */
+  private exhaustedIndices = new Set<number>();
+
+  /**
+   * The item count the indices were last loaded for
+   *
+   * @private
+   * @memberof ItemPageCache
+   */
+  private itemCount?: number;
+
+  private pageSize: number;
+
+  private maxCachedPages: number;
+
+  private fetchRange: ItemRangeFetcher<T>;
+
+  private pageLoaded: (start: number, end: number) => void;
+
+  private pageFailed: (start: number, end: number, error: unknown) => void;
+
+  /**
+   * @param pageSize The number of items in each page
+   * @param fetchRange Fetches the items for a page
+   * @param pageLoaded Called with the range of indices that were loaded for a page
+   * @param pageFailed Called with the range of indices of a page that failed to load
+   * @param maxCachedPages How many pages' worth of items to keep at most, not counting the needed ones
+   */
+  constructor(
+    pageSize: number,
+    fetchRange: ItemRangeFetcher<T>,
+    pageLoaded: (start: number, end: number) => void,
+    pageFailed: (start: number, end: number, error: unknown) => void,
+    maxCachedPages = Infinity
+  ) {
+    this.pageSize = pageSize;
+    this.maxCachedPages = maxCachedPages;
+    this.fetchRange = fetchRange;
+    this.pageLoaded = pageLoaded;
+    this.pageFailed = pageFailed;
+  }
+
+  /**
+   * Whether the item at the given index has been loaded
+   */
+  hasItem(index: number): boolean {
+    return this.items.has(index);
+  }
+
+  /**
+   * The loaded item at the given index, if any
+   */
+  itemAt(index: number): T | undefined {
+    return this.items.get(index);
+  }
+
+  /**
+   * Fetch the pages covering the given indices that haven't been loaded
+   * and aren't already in flight, and abort the in-flight pages that
+   * don't cover any of them since they're no longer needed. The loaded
+   * items furthest from the given indices are evicted if there are too many.
+   * The indices a short page didn't return are skipped until the item count changes.
+   *
+   * @param indices The indices that are needed
+   * @param itemCount The total number of items, used to clamp the last page
+   */
+  loadIndices(indices: number[], itemCount: number) {
+    if (itemCount !== this.itemCount) {
+      this.itemCount = itemCount;
+      this.exhaustedIndices.clear();
+    }
+    const neededPages = new Set(
+      indices
+        .filter(
+          index =>
+            index < itemCount &&
+            !this.items.has(index) &&
+            !this.exhaustedIndices.has(index)
+        )
+        .map(index => Math.floor(index / this.pageSize))
+    );
+
+    this.inFlightPages.forEach((controller, page) => {
+      if (neededPages.has(page)) return;
+      controller.abort();
+      this.inFlightPages.delete(page);
+    });
+
+    neededPages.forEach(page => {
+      if (this.inFlightPages.has(page)) return;
+      this.fetchPage(page, itemCount);
+    });
+
+    this.evictItems(indices);
+  }
+
+  /**
+   * Move the loaded items to their new indices after items were added or removed.
+   * In-flight pages are aborted since their indices are no longer valid, so the
+   * needed indices have to be loaded again afterwards.
+   */
+  remapIndices(mapping: IndexMapping) {
+    this.inFlightPages.forEach(controller => controller.abort());
+    this.inFlightPages.clear();
+    this.items = remapIndexMap(this.items, mapping);
+    this.exhaustedIndices = remapIndexSet(this.exhaustedIndices, mapping);
+  }
+
+  /**
+   * Abort all in-flight requests and forget the loaded items
+   */
+  clear() {
+    this.inFlightPages.forEach(controller => controller.abort());
+    this.inFlightPages.clear();
+    this.items.clear();
+    this.exhaustedIndices.clear();
+  }
+
+  /**
+   * Forget the loaded items furthest from the needed indices until no more
+   * than `maxCachedPages` pages' worth of items are left, keeping the needed ones
+   */
+  private evictItems(neededIndices: number[]) {
+    const maxItemCount = this.maxCachedPages * this.pageSize;
+    if (this.items.size <= maxItemCount || neededIndices.length === 0) return;
+    const needed = new Set(neededIndices);
+    const first = neededIndices.reduce((a, b) => Math.min(a, b));
+    const last = neededIndices.reduce((a, b) => Math.max(a, b));
+    const distance = (index: number) =>
+      Math.max(first - index, index - last, 0);
+    const evictable = Array.from(this.items.keys())
+      .filter(index => !needed.has(index))
+      .sort((a, b) => distance(b) - distance(a));
+    const evictedCount = Math.min(
+      evictable.length,
+      this.items.size - maxItemCount
+    );
+    evictable.slice(0, evictedCount).forEach(index => this.items.delete(index));
+  }
+
+  private async fetchPage(page: number, itemCount: number) {
+    const start = page * this.pageSize;
+    const end = Math.min(start + this.pageSize, itemCount) - 1;
+    const controller = new AbortController();
+    this.inFlightPages.set(page, controller);
+
+    let pageItems: T[];
+    try {
+      pageItems = await this.fetchRange(start, end, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.inFlightPages.delete(page);
+      this.pageFailed(start, end, error);
+      return;
+    }
+
+    // the page was aborted or the cache was cleared while it was in flight
+    if (controller.signal.aborted) return;
+    this.inFlightPages.delete(page);
+
+    const loadedItems = pageItems.slice(0, end - start + 1);
+    // the data source ran out of items, so don't keep asking for the rest of the page
+    generateRange(start + loadedItems.length, end, 1).forEach(index =>
+      this.exhaustedIndices.add(index)
+    );
+    if (loadedItems.length === 0) return;
+    loadedItems.forEach((item, offset) => this.items.set(start + offset, item));
+    this.pageLoaded(start, start + loadedItems.length - 1);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * How much of the finger's travel the pull follows, so pulling feels elastic
+ */
+const touchResistance = 0.5;
+
+/**
+ * How long a pause between wheel events ends a wheel gesture, in milliseconds
+ */
+const wheelGestureTimeout = 300;
+
+/**
+ * How many pixels a line of wheel scrolling counts as, since browsers don't
+ * tell their line height
+ */
+const wheelLineHeight = 16;
+
+/**
+ * The `deltaMode`s of wheel events scrolling by lines and by pages
+ */
+const wheelDeltaLine = 1;
+const wheelDeltaPage = 2;
+
+/**
+ * Tracks a pull past the top of the cells, from touches or from wheel overscroll,
+ * and reports when it has gone far enough to refresh.
+ */
+export class PullToRefreshGesture {
+  /**
+   * How far to pull to refresh, in pixels
+   *
+   * @memberof PullToRefreshGesture
+   */
+  threshold: number;
+
+  /**
+   * How far the cells are currently pulled, in pixels
+   *
+   * @memberof PullToRefreshGesture
+   */
+  distance = 0;
+
+  /**
+   * Where the touch started, if it started with the cells scrolled to the top
+   *
+   * @private
+   * @memberof PullToRefreshGesture
+   */
+  private touchStartPosition?: number;
+
+  private wheelDistance = 0;
+
+  private lastWheelTime = -Infinity;
+
+  /**
+   * Whether the current wheel gesture is a pull, ie. it started scrolling up
+   * with the cells at rest at the top and hasn't left it since
+   *
+   * @private
+   * @memberof PullToRefreshGesture
+   */
+  private wheelPulling = false;
+
+  /**
+   * @param threshold How far to pull to refresh, in pixels
+   */
+  constructor(threshold: number) {
+    this.threshold = threshold;
+  }
+
+  /**
+   * Start a touch pull, which only counts if the cells are scrolled to the top
+   *
+   * @param position Where the touch started along the vertical axis
+   * @param atTop Whether the cells are scrolled to the top
+   */
+  touchStart(position: number, atTop: boolean) {
+    this.touchStartPosition = atTop ? position : undefined;
+    this.distance = 0;
+  }
+
+  /**
+   * Follow a touch pull
+   *
+   * @param position Where the touch is now along the vertical axis
+   * @returns How far the cells are pulled
+   */
+  touchMove(position: number): number {
+    const { touchStartPosition } = this;
+    if (touchStartPosition === undefined) return 0;
+    this.distance = Math.max(
+      0,
+      (position - touchStartPosition) * touchResistance
+    );
+    return this.distance;
+  }
+
+  /**
+   * Let go of a touch pull
+   *
+   * @returns Whether it was pulled far enough to refresh
+   */
+  touchEnd(): boolean {
+    const pulled = this.distance >= this.threshold;
+    this.touchStartPosition = undefined;
+    this.distance = 0;
+    return pulled;
+  }
+
+  /**
+   * Follow wheel scrolling past the top of the cells. Only a wheel gesture
+   * that starts with the cells at rest at the top counts, so the momentum of
+   * scrolling up to the top doesn't carry on into a refresh.
+   *
+   * @param delta The wheel event's `deltaY`, negative when scrolling up
+   * @param deltaMode The wheel event's `deltaMode`, ie. whether `delta` is in
+   * pixels, lines or pages
+   * @param time The time of the wheel event
+   * @param atTop Whether the cells are scrolled to the top
+   * @param pageSize How many pixels a page of wheel scrolling is
+   * @returns Whether it was pulled far enough to refresh
+   */
+  wheel(
+    delta: number,
+    deltaMode: number,
+    time: number,
+    atTop: boolean,
+    pageSize: number
+  ): boolean {
+    let pixels = delta;
+    if (deltaMode === wheelDeltaLine) pixels *= wheelLineHeight;
+    if (deltaMode === wheelDeltaPage) pixels *= pageSize;
+
+    const startsGesture = time - this.lastWheelTime > wheelGestureTimeout;
+    this.lastWheelTime = time;
+    if (startsGesture) {
+      this.wheelPulling = atTop && pixels < 0;
+      this.wheelDistance = 0;
+    } else if (!atTop || pixels >= 0) {
+      // the pull is over until the wheel comes to rest again
+      this.wheelPulling = false;
+    }
+    if (!this.wheelPulling) return false;
+    this.wheelDistance -= pixels;
+    if (this.wheelDistance < this.threshold) return false;
+    // the rest of the gesture, eg. its momentum, doesn't refresh again
+    this.wheelPulling = false;
+    return true;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * How much of the previous velocity carries over into the next sample,
+ * to smooth out uneven scroll events
+ */
+const smoothingFactor = 0.5;
+
+/**
+ * Keeps track of how fast and in which direction something is scrolling
+ * from successive scroll positions.
+ */
+export class ScrollVelocityTracker {
+  /**
+   * The smoothed scroll velocity in pixels per millisecond, positive when
+   * scrolling towards the end and negative when scrolling towards the start
+   *
+   * @memberof ScrollVelocityTracker
+   */
+  velocity = 0;
+
+  private lastPosition?: number;
+
+  private lastTime?: number;
+
+  /**
+   * Record a new scroll position
+   *
+   * @param position The scroll offset along the scroll axis
+   * @param time The time of the scroll event, eg. from `performance.now()`
+   */
+  update(position: number, time: number) {
+    const { lastPosition, lastTime } = this;
+    this.lastPosition = position;
+    this.lastTime = time;
+    if (lastPosition === undefined || lastTime === undefined) return;
+    const elapsed = time - lastTime;
+    if (elapsed <= 0) return;
+    const sample = (position - lastPosition) / elapsed;
+    this.velocity =
+      smoothingFactor * this.velocity + (1 - smoothingFactor) * sample;
+  }
+
+  /**
+   * Forget the velocity once scrolling has stopped
+   */
+  reset() {
+    this.velocity = 0;
+    this.lastPosition = undefined;
+    this.lastTime = undefined;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * The prefix of the `performance` marks and measures, so they can be found among the page's own
+ */
+const entryPrefix = 'infinite-scroller:';
+
+/**
+ * How many measures of each kind of work to keep in the performance timeline
+ */
+const maxMeasuresPerName = 100;
+
+/**
+ * How many measures of each kind of work to let pile up past the ones kept
+ * before dropping the oldest, so they aren't recorded again on every measure
+ */
+const measureTrimBatchSize = 100;
+
+/**
+ * What the scroller did since the counts were last taken
+ */
+export type InstrumentationCounts = {
+  /** How many cells had their content rendered */
+  cellsRendered: number;
+  /** How many cells had their content removed */
+  cellsRemoved: number;
+  /** How long was spent getting cell templates from the cell provider or data source, in milliseconds */
+  cellForIndexTime: number;
+  /** How far the cells moved because rendered cells weren't the size they were pinned to, in pixels */
+  layoutShift: number;
+};
+
+/**
+ * Records `performance` measures of the scroller's work and counts what
+ * it rendered, for finding out why scrolling stutters.
+ */
+export class ScrollerInstrumentation {
+  /**
+   * What was counted since the counts were last taken
+   *
+   * @private
+   * @memberof ScrollerInstrumentation
+   */
+  private counts: InstrumentationCounts = {
+    cellsRendered: 0,
+    cellsRemoved: 0,
+    cellForIndexTime: 0,
+    layoutShift: 0,
+  };
+
+  /**
+   * Do some work between two `performance` marks and measure it. Once there are
+   * 200 measures of the same work, the oldest are dropped to keep the newest
+   * 100 so they don't pile up in the performance timeline. The timeline can't
+   * drop single entries, so the kept ones are recorded again, which recorded
+   * profiles and any `PerformanceObserver` see as well.
+   *
+   * @param name What the work is called in the performance timeline
+   * @param work The work to measure
+   * @returns What the work returned
+   */
+  measure<T>(name: string, work: () => T): T {
+    const startMark = `${entryPrefix}${name}:start`;
+    const endMark = `${entryPrefix}${name}:end`;
+    performance.mark(startMark);
+    try {
+      return work();
+    } finally {
+      performance.mark(endMark);
+      const measureName = `${entryPrefix}${name}`;
+      performance.measure(measureName, startMark, endMark);
+      performance.clearMarks(startMark);
+      performance.clearMarks(endMark);
+      this.trimMeasures(measureName);
+    }
+  }
+
+  /**
+   * Drop the oldest measures of the given name once too many have piled up
+   *
+   * @private
+   * @memberof ScrollerInstrumentation
+   */
+  private trimMeasures(measureName: string) {
+    const measures = performance.getEntriesByName(measureName, 'measure');
+    if (measures.length < maxMeasuresPerName + measureTrimBatchSize) return;
+    performance.clearMeasures(measureName);
+    for (const { startTime, duration } of measures.slice(-maxMeasuresPerName)) {
+      performance.measure(measureName, { start: startTime, duration });
+    }
+  }
+
+  /**
+   * Get a cell template, adding the time it took to `cellForIndexTime`
+   */
+  timeCellTemplate<T>(getTemplate: () => T): T {
+    const start = performance.now();
+    try {
+      return getTemplate();
+    } finally {
+      this.counts.cellForIndexTime += performance.now() - start;
+    }
+  }
+
+  cellRendered() {
+    this.counts.cellsRendered += 1;
+  }
+
+  cellRemoved() {
+    this.counts.cellsRemoved += 1;
+  }
+
+  /**
+   * Count a rendered cell changing size from the size it was pinned to
+   *
+   * @param change How much the cell grew or shrank, in pixels
+   */
+  cellResized(change: number) {
+    this.counts.layoutShift += Math.abs(change);
+  }
+
+  /**
+   * Get the counts since they were last taken, and start counting again
+   */
+  takeCounts(): InstrumentationCounts {
+    const { counts } = this;
+    this.counts = {
+      cellsRendered: 0,
+      cellsRemoved: 0,
+      cellForIndexTime: 0,
+      layoutShift: 0,
+    };
+    return counts;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * The index at a position along the scrubber's track, with the items spread
+ * evenly from the first at the start of the track to the last at its end
+ *
+ * eg. scrubIndexAt(150, 100, 200, 101) is 25
+ *
+ * @param {number} position the position of the pointer along the track
+ * @param {number} trackStart the position of the start of the track
+ * @param {number} trackLength how long the track is
+ * @param {number} itemCount how many items there are
+ * @returns {number} the index at the position
+ */
+export function scrubIndexAt(
+  position: number,
+  trackStart: number,
+  trackLength: number,
+  itemCount: number
+): number {
+  if (trackLength <= 0 || itemCount <= 1) return 0;
+  const fraction = Math.max(
+    0,
+    Math.min(1, (position - trackStart) / trackLength)
+  );
+  return Math.round(fraction * (itemCount - 1));
+}
+
+/**
+ * How far along the scrubber's track an index is, from 0 at the start to 1 at the end
+ *
+ * @param {number} index the index to find on the track
+ * @param {number} itemCount how many items there are
+ * @returns {number} the fraction of the track before the index
+ */
+export function scrubFractionForIndex(
+  index: number,
+  itemCount: number
+): number {
+  if (itemCount <= 1) return 0;
+  return Math.max(0, Math.min(1, index / (itemCount - 1)));
+}
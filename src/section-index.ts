@@ -0,0 +1,177 @@
+/**
+ * The position of a cell within sectioned data
+ */
+export type SectionIndexPath = {
+  section: number;
+  item: number;
+};
+
+/**
+ * Maps between the flat cell indices and the section and item
+ * of each cell, given the number of items in each section.
+ */
+export class SectionIndex {
+  /**
+   * The total number of items in all of the sections
+   *
+   * @memberof SectionIndex
+   */
+  readonly itemCount: number;
+
+  /**
+   * The flat index of the first item of each section
+   *
+   * @private
+   * @memberof SectionIndex
+   */
+  private sectionStarts: number[];
+
+  private sectionItemCounts: number[];
+
+  /**
+   * @param sectionItemCounts The number of items in each section
+   */
+  constructor(sectionItemCounts: number[]) {
+    this.sectionItemCounts = sectionItemCounts.map(count =>
+      Math.max(0, Math.floor(count))
+    );
+    this.sectionStarts = [];
+    let itemCount = 0;
+    this.sectionItemCounts.forEach(count => {
+      this.sectionStarts.push(itemCount);
+      itemCount += count;
+    });
+    this.itemCount = itemCount;
+  }
+
+  /**
+   * The section and item of the given flat index, or `undefined` if it is out of range
+   */
+  indexPathForIndex(index: number): SectionIndexPath | undefined {
+    if (index < 0 || index >= this.itemCount) return undefined;
+    // find the last section starting at or before the index, which skips
+    // over any empty sections starting at the same index
+    let low = 0;
+    let high = this.sectionStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.sectionStarts[middle] <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { section: low, item: index - this.sectionStarts[low] };
+  }
+
+  /**
+   * The flat index of the given section and item, or `undefined` if it is out of range
+   */
+  indexForIndexPath({ section, item }: SectionIndexPath): number | undefined {
+    const count = this.sectionItemCounts[section];
+    if (count === undefined || item < 0 || item >= count) return undefined;
+    return this.sectionStarts[section] + item;
+  }
+
+  /**
+   * The first index of the row the given index is in, given that each
+   * section starts a new row
+   */
+  rowStartIndex(index: number, columnCount: number): number {
+    const indexPath = this.indexPathForIndex(index);
+    if (!indexPath) return index;
+    return index - (indexPath.item % Math.max(1, columnCount));
+  }
+
+  /**
+   * The last index of the row the given index is in, given that each
+   * section starts a new row
+   */
+  rowEndIndex(index: number, columnCount: number): number {
+    const indexPath = this.indexPathForIndex(index);
+    if (!indexPath) return index;
+    const columns = Math.max(1, columnCount);
+    const count = this.sectionItemCounts[indexPath.section];
+    const rowStartItem = indexPath.item - (indexPath.item % columns);
+    return index - indexPath.item + Math.min(rowStartItem + columns, count) - 1;
+  }
+
+  /**
+   * The index in the same column of the row before or after the given index,
+   * crossing over into the neighboring non-empty sections, or `undefined` if
+   * there is no such row
+   *
+   * @param index The index to move from
+   * @param columnCount The number of cells in each row
+   * @param direction `-1` for the row before, `1` for the row after
+   */
+  indexInAdjacentRow(
+    index: number,
+    columnCount: number,
+    direction: -1 | 1
+  ): number | undefined {
+    const indexPath = this.indexPathForIndex(index);
+    if (!indexPath) return undefined;
+    const columns = Math.max(1, columnCount);
+    const column = indexPath.item % columns;
+    const count = this.sectionItemCounts[indexPath.section];
+    const targetRowStart = indexPath.item - column + direction * columns;
+    if (targetRowStart >= 0 && targetRowStart < count) {
+      return (
+        this.sectionStarts[indexPath.section] +
+        Math.min(targetRowStart + column, count - 1)
+      );
+    }
+
+    let section = indexPath.section + direction;
+    while (this.sectionItemCounts[section] === 0) section += direction;
+    const sectionCount = this.sectionItemCounts[section];
+    if (sectionCount === undefined) return undefined;
+    const rowStart =
+      direction > 0 ? 0 : Math.floor((sectionCount - 1) / columns) * columns;
+    return (
+      this.sectionStarts[section] +
+      Math.min(rowStart + column, sectionCount - 1)
+    );
+  }
+
+  /**
+   * The section item counts after inserting items at the given index, into
+   * the section of the item that is there or else the last section
+   */
+  itemCountsAfterInsertion(index: number, count: number): number[] {
+    const itemCounts = [...this.sectionItemCounts];
+    const section =
+      this.indexPathForIndex(index)?.section ?? itemCounts.length - 1;
+    if (section >= 0) itemCounts[section] += count;
+    return itemCounts;
+  }
+
+  /**
+   * The section item counts after removing items from the given index
+   */
+  itemCountsAfterRemoval(index: number, count: number): number[] {
+    const end = index + count;
+    return this.sectionItemCounts.map((sectionCount, section) => {
+      const sectionStart = this.sectionStarts[section];
+      const removedCount =
+        Math.min(end, sectionStart + sectionCount) -
+        Math.max(index, sectionStart);
+      return sectionCount - Math.max(0, removedCount);
+    });
+  }
+
+  /**
+   * The section item counts after moving an item, which joins the
+   * section of the item it takes the place of
+   */
+  itemCountsAfterMove(from: number, to: number): number[] {
+    const itemCounts = [...this.sectionItemCounts];
+    const fromPath = this.indexPathForIndex(from);
+    const toPath = this.indexPathForIndex(to);
+    if (!fromPath || !toPath) return itemCounts;
+    itemCounts[fromPath.section] -= 1;
+    itemCounts[toPath.section] += 1;
+    return itemCounts;
+  }
+}
@@ -0,0 +1,78 @@
+/* eslint-disable import/no-duplicates */
+// the fixtures have to load before any custom elements are defined
+import {
+  cleanupFixtures,
+  ssrHydratedFixture,
+  ssrNonHydratedFixture,
+} from '@lit-labs/testing/fixtures.js';
+import { expect } from '@open-wc/testing';
+import { html } from 'lit';
+import { InfiniteScroller } from '../src/infinite-scroller';
+import { SsrTestScroller } from './ssr-test-scroller';
+// the elements have to be defined on the client to hydrate them
+import './ssr-test-scroller';
+
+const modules = ['./ssr-test-scroller.js'];
+
+const scrollerIn = (el: SsrTestScroller) =>
+  el.shadowRoot?.querySelector('infinite-scroller') as InfiniteScroller;
+
+const cellTexts = (scroller: InfiniteScroller) =>
+  Array.from(scroller.shadowRoot?.querySelectorAll('.cell') ?? []).map(cell =>
+    cell.textContent?.trim()
+  );
+
+describe('Infinite Scroller server-side rendering', () => {
+  afterEach(() => cleanupFixtures());
+
+  it('renders the initial cells on the server', async () => {
+    const el = await ssrNonHydratedFixture<SsrTestScroller>(
+      html`<ssr-test-scroller itemcount="3"></ssr-test-scroller>`,
+      { modules }
+    );
+    const scroller = scrollerIn(el);
+    expect(
+      scroller.shadowRoot?.querySelectorAll('.cell-container').length
+    ).to.equal(3);
+    expect(cellTexts(scroller)).to.deep.equal(['cell-0', 'cell-1', 'cell-2']);
+  });
+
+  it('renders the initial cells of each section on the server', async () => {
+    const el = await ssrNonHydratedFixture<SsrTestScroller>(
+      html`<ssr-test-scroller sectionitemcounts="[2, 3]"></ssr-test-scroller>`,
+      { modules }
+    );
+    const scroller = scrollerIn(el);
+    const headers = scroller.shadowRoot?.querySelectorAll('.section-header');
+    expect(headers?.length).to.equal(2);
+    expect(headers?.[1].textContent?.trim()).to.equal('section-1');
+    expect(cellTexts(scroller)).to.deep.equal([
+      'cell-0',
+      'cell-1',
+      'cell-2',
+      'cell-3',
+      'cell-4',
+    ]);
+  });
+
+  it('hydrates the sectioned cells without rendering them twice', async () => {
+    const el = await ssrHydratedFixture<SsrTestScroller>(
+      html`<ssr-test-scroller sectionitemcounts="[2, 3]"></ssr-test-scroller>`,
+      { modules }
+    );
+    const scroller = scrollerIn(el);
+    await scroller.updateComplete;
+    expect(scroller.itemCount).to.equal(5);
+    expect(scroller.indexPathForIndex(2)).to.deep.equal({
+      section: 1,
+      item: 0,
+    });
+    expect(cellTexts(scroller)).to.deep.equal([
+      'cell-0',
+      'cell-1',
+      'cell-2',
+      'cell-3',
+      'cell-4',
+    ]);
+  });
+});
@@ -2,14 +2,30 @@
 import { expect, fixture, oneEvent } from '@open-wc/testing';
 import { html, TemplateResult } from 'lit';
 import {
+  CellImpressionDetails,
+  CellLoadFailedDetails,
+  CellReorderDetails,
   CellSelectionDetails,
   InfiniteScroller,
   InfiniteScrollerCellProviderInterface,
+  InfiniteScrollerDataSourceInterface,
+  NewItemsShownDetails,
+  RefreshRequestedDetails,
+  ScrollSettledDetails,
+  ScrollerMetricsDetails,
+  ScrubRequestedDetails,
+  ScrollState,
+  SelectionChangedDetails,
+  VisibleCellsChangedDetails,
 } from '../src/infinite-scroller';
 import '../src/infinite-scroller';
+import { ScrollerInstrumentation } from '../src/scroller-instrumentation';
 import { promisedSleep } from './promised-sleep';
 
 describe('Infinite Scroller', () => {
+  // the window would keep the scroll position a test scrolled its scroller to
+  afterEach(() => window.scrollTo(0, 0));
+
   it('should render with a sentinel and number of cells', async () => {
     const el = await fixture<InfiniteScroller>(
       html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
@@ -40,6 +56,20 @@ describe('Infinite Scroller', () => {
     expect(event.detail.originalEvent).to.exist;
   });
 
+  it('types the listeners of its events by name', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
+    );
+    const cell = el.shadowRoot?.querySelectorAll('.cell-container')[1];
+    const selectedIndices: number[] = [];
+    el.addEventListener('cellSelected', event => {
+      selectedIndices.push(event.detail.index);
+    });
+
+    cell?.dispatchEvent(new MouseEvent('click'));
+    expect(selectedIndices).to.deep.equal([1]);
+  });
+
   it('populates cell containers with provided content', async () => {
     const cellProvider: InfiniteScrollerCellProviderInterface = {
       cellForIndex: (index: number): TemplateResult | undefined =>
@@ -114,4 +144,1744 @@ describe('Infinite Scroller', () => {
     expect((cells?.[1] as HTMLDivElement).innerText).to.equal('cell-1 b');
     expect((cells?.[2] as HTMLDivElement).innerText).to.equal('cell-2 c');
   });
+
+  it('only renders the window of cells when virtualization is enabled', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        virtualizationEnabled
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const trailingSpacer = el.shadowRoot?.querySelector(
+      '#trailing-spacer'
+    ) as HTMLDivElement;
+    expect(cells?.length).to.be.greaterThan(0);
+    expect(cells?.length).to.be.lessThan(1000);
+    expect(trailingSpacer).to.exist;
+    expect(trailingSpacer.offsetHeight).to.be.greaterThan(0);
+    expect(cells?.[0].getAttribute('aria-setsize')).to.equal('1000');
+  });
+
+  it('sizes the spacers from the estimated sizes of their cells', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html` cell-${index} `,
+      estimatedSizeForIndex: () => 50,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        .cellProvider=${cellProvider}
+        virtualizationEnabled
+        style="--infiniteScrollerCellMinWidth: 100%; --infiniteScrollerRowGap: 0"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const lastCell = cells?.[cells.length - 1] as HTMLElement;
+    const trailingSpacer = el.shadowRoot?.querySelector(
+      '#trailing-spacer'
+    ) as HTMLDivElement;
+    const trailingRows = 999 - Number(lastCell.dataset.cellIndex);
+    expect(trailingSpacer.offsetHeight).to.equal(trailingRows * 50);
+  });
+
+  it('renders the container for an unrendered cell when scrolling to it', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        virtualizationEnabled
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    expect(
+      el.shadowRoot?.querySelector('.cell-container[data-cell-index="900"]')
+    ).to.not.exist;
+
+    await el.scrollToCell(900, false);
+
+    const cell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="900"]'
+    );
+    expect(cell).to.exist;
+    expect(cell?.getAttribute('aria-posinset')).to.equal('901');
+    expect(el.shadowRoot?.querySelector('#leading-spacer')).to.exist;
+  });
+
+  it('renders cells from an async data source once their page loads', async () => {
+    const fetchedRanges: [number, number][] = [];
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: async (start: number, end: number) => {
+        fetchedRanges.push([start, end]);
+        await promisedSleep(10);
+        return ['foo', 'bar', 'baz'].slice(start, end + 1);
+      },
+      cellForItem: (item: string, index: number) => html`cell-${index} ${item}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .pageSize=${2}
+        .dataSource=${dataSource}
+        .placeholderCellTemplate=${html`loading`}
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    await promisedSleep(100);
+    expect(fetchedRanges).to.deep.equal([
+      [0, 1],
+      [2, 2],
+    ]);
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('cell-0 foo');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('cell-1 bar');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('cell-2 baz');
+  });
+
+  it('renders the cells again from the new pages when the page size changes', async () => {
+    const fetchedRanges: [number, number][] = [];
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: async (start: number, end: number) => {
+        fetchedRanges.push([start, end]);
+        return ['foo', 'bar', 'baz'].slice(start, end + 1);
+      },
+      cellForItem: (item: string, index: number) => html`cell-${index} ${item}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .pageSize=${2}
+        .dataSource=${dataSource}
+        .placeholderCellTemplate=${html`loading`}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    fetchedRanges.length = 0;
+    el.pageSize = 3;
+    await el.updateComplete;
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(fetchedRanges).to.deep.equal([[0, 2]]);
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('cell-0 foo');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('cell-2 baz');
+  });
+
+  it('does not fetch the items missing from a short page again', async () => {
+    const fetchedRanges: [number, number][] = [];
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: async (start: number, end: number) => {
+        fetchedRanges.push([start, end]);
+        return ['foo', 'bar'].slice(start, end + 1);
+      },
+      cellForItem: (item: string) => html`${item}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .pageSize=${3}
+        .dataSource=${dataSource}
+        .placeholderCellTemplate=${html`loading`}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    el.bufferPolicy = { trailingCells: 10 };
+    await el.updateComplete;
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(fetchedRanges).to.deep.equal([[0, 2]]);
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('bar');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('loading');
+
+    el.itemCount = 4;
+    await el.updateComplete;
+    await promisedSleep(100);
+    expect(fetchedRanges).to.deep.equal([
+      [0, 2],
+      [0, 2],
+      [3, 3],
+    ]);
+  });
+
+  it('shows placeholders while a page is loading', async () => {
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: () => new Promise<string[]>(() => {}),
+      cellForItem: (item: string) => html`${item}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${2}
+        .dataSource=${dataSource}
+        .placeholderCellTemplate=${html`loading`}
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    await promisedSleep(100);
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('loading');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('loading');
+  });
+
+  it('shows the error cell for failed cells until they are retried', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`cell-${index}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .cellProvider=${cellProvider}
+        .errorCellTemplate=${(index: number, error: unknown) =>
+          html`failed-${index} ${error}`}
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    await promisedSleep(100);
+
+    setTimeout(() => el.markCellFailed(1, 'timeout'));
+    const event: CustomEvent<CellLoadFailedDetails> = await oneEvent(
+      el,
+      'cellLoadFailed'
+    );
+    expect(event.detail.index).to.equal(1);
+    expect(event.detail.error).to.equal('timeout');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal(
+      'failed-1 timeout'
+    );
+
+    el.retryCell(1);
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('cell-1');
+  });
+
+  it('marks the cells of a page that failed to load from the data source', async () => {
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: () => Promise.reject(new Error('timeout')),
+      cellForItem: (item: string) => html`${item}`,
+    };
+    const failedIndices: number[] = [];
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${2}
+        .dataSource=${dataSource}
+        .errorCellTemplate=${html`failed`}
+        @cellLoadFailed=${(e: CustomEvent<CellLoadFailedDetails>) =>
+          failedIndices.push(e.detail.index)}
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    await promisedSleep(100);
+    expect(failedIndices).to.deep.equal([0, 1]);
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('failed');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('failed');
+  });
+
+  it('only emits cellLoadFailed for the buffered cells of a failed page', async () => {
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: () => Promise.reject(new Error('timeout')),
+      cellForItem: (item: string) => html`${item}`,
+    };
+    const failedIndices: number[] = [];
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${200}
+        .pageSize=${100}
+        .dataSource=${dataSource}
+        .errorCellTemplate=${html`failed`}
+        @cellLoadFailed=${(e: CustomEvent<CellLoadFailedDetails>) =>
+          failedIndices.push(e.detail.index)}
+      ></infinite-scroller>`
+    );
+
+    await promisedSleep(100);
+    expect(failedIndices).to.include(0);
+    expect(failedIndices.length).to.be.lessThan(100);
+    const lastCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="99"]'
+    ) as HTMLDivElement;
+    expect(lastCell.innerText).to.equal('');
+  });
+
+  it('renders a start sentinel', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
+    );
+
+    const startSentinel = el.shadowRoot?.querySelector('#start-sentinel');
+    expect(startSentinel).to.exist;
+  });
+
+  it('moves existing cells to their new indices when prepending items', async () => {
+    const cellData = ['foo', 'bar'];
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`${cellData[index]}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${2}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const fooCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"]'
+    );
+
+    cellData.unshift('baz');
+    el.prependItems(1);
+    await el.updateComplete;
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(el.itemCount).to.equal(3);
+    expect(cells?.length).to.equal(3);
+    expect(cells?.[1]).to.equal(fooCell);
+    expect(cells?.[1].getAttribute('data-cell-index')).to.equal('1');
+    expect(cells?.[1].getAttribute('aria-posinset')).to.equal('2');
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('baz');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('foo');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('bar');
+  });
+
+  it('reports the scroll state with the measured cell sizes', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<div style="height: 50px">cell-${index}</div>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const scrollState = el.getScrollState();
+    expect(scrollState.firstVisibleIndex).to.equal(0);
+    expect(scrollState.itemCount).to.equal(3);
+    expect(Object.keys(scrollState.cellSizes)).to.deep.equal(['0', '1', '2']);
+  });
+
+  it('saves the scroll state to session storage when a cell is selected', async () => {
+    window.sessionStorage.removeItem('test-scroll-state');
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        scrollStateKey="test-scroll-state"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const cell = el.shadowRoot?.querySelector('.cell-container');
+    cell?.dispatchEvent(new MouseEvent('click'));
+
+    const savedState = window.sessionStorage.getItem('test-scroll-state');
+    expect(savedState).to.exist;
+    expect(JSON.parse(savedState as string).itemCount).to.equal(3);
+    window.sessionStorage.removeItem('test-scroll-state');
+  });
+
+  it('still emits cellSelected when the scroll state cannot be saved', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        scrollStateKey="test-scroll-state"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const { setItem } = Storage.prototype;
+    Storage.prototype.setItem = () => {
+      throw new DOMException(
+        'The quota has been exceeded',
+        'QuotaExceededError'
+      );
+    };
+
+    const cell = el.shadowRoot?.querySelector('.cell-container');
+    try {
+      setTimeout(() => {
+        cell?.dispatchEvent(new MouseEvent('click'));
+      });
+      const event: CustomEvent<CellSelectionDetails> = await oneEvent(
+        el,
+        'cellSelected'
+      );
+      expect(event.detail.index).to.equal(0);
+    } finally {
+      Storage.prototype.setItem = setItem;
+    }
+  });
+
+  it('ignores a corrupt scroll state in session storage', async () => {
+    window.sessionStorage.setItem('test-scroll-state', '{"itemCount":');
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        scrollStateKey="test-scroll-state"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    expect(el.itemCount).to.equal(3);
+    window.sessionStorage.removeItem('test-scroll-state');
+  });
+
+  it('restores the item count from a scroll state', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${0}></infinite-scroller>`
+    );
+    const scrollState: ScrollState = {
+      firstVisibleIndex: 1,
+      offset: 0,
+      itemCount: 3,
+      cellSizes: { 0: 123, 1: 45 },
+    };
+
+    await el.restoreScrollState(scrollState);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(el.itemCount).to.equal(3);
+    expect(cells?.length).to.equal(3);
+  });
+
+  it('moves the cells after removed items to their new indices', async () => {
+    const cellData = ['foo', 'bar', 'baz', 'qux'];
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`${cellData[index]}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${4}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const quxCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="3"]'
+    );
+
+    cellData.splice(1, 2);
+    el.removeItems(1, 2);
+    await el.updateComplete;
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(el.itemCount).to.equal(2);
+    expect(cells?.length).to.equal(2);
+    expect(cells?.[1]).to.equal(quxCell);
+    expect(cells?.[1].getAttribute('data-cell-index')).to.equal('1');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('qux');
+  });
+
+  it('renders inserted items without re-rendering the existing cells', async () => {
+    const cellData = ['foo', 'bar'];
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`${cellData[index]}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${2}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const barCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="1"]'
+    );
+
+    cellData.splice(1, 0, 'baz');
+    el.insertItems(1, 1);
+    await el.updateComplete;
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(cells?.length).to.equal(3);
+    expect(cells?.[2]).to.equal(barCell);
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('baz');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('bar');
+  });
+
+  it('moves an item along with its cell', async () => {
+    const cellData = ['foo', 'bar', 'baz'];
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`${cellData[index]}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    cellData.splice(2, 0, ...cellData.splice(0, 1));
+    el.moveItem(0, 2);
+    await el.updateComplete;
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('bar');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('baz');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('foo');
+    expect(cells?.[2].getAttribute('data-cell-index')).to.equal('2');
+  });
+
+  it('fetches the pages that were in flight again after moving an item', async () => {
+    const items = ['foo', 'bar', 'baz'];
+    const dataSource: InfiniteScrollerDataSourceInterface<string> = {
+      fetchRange: async (start: number, end: number) => {
+        await promisedSleep(50);
+        return items.slice(start, end + 1);
+      },
+      cellForItem: (item: string) => html`${item}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .pageSize=${1}
+        .dataSource=${dataSource}
+        .placeholderCellTemplate=${html`loading`}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(20);
+
+    items.splice(2, 0, ...items.splice(0, 1));
+    el.moveItem(0, 2);
+    await el.updateComplete;
+    await promisedSleep(200);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect((cells?.[0] as HTMLDivElement).innerText).to.equal('bar');
+    expect((cells?.[1] as HTMLDivElement).innerText).to.equal('baz');
+    expect((cells?.[2] as HTMLDivElement).innerText).to.equal('foo');
+  });
+
+  it('only puts the active cell in the tab order', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    expect(cells?.[0].getAttribute('tabindex')).to.equal('0');
+    expect(cells?.[1].getAttribute('tabindex')).to.equal('-1');
+    expect(cells?.[2].getAttribute('tabindex')).to.equal('-1');
+  });
+
+  it('keeps a rendered cell in the tab order when the active cell is outside the window', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        virtualizationEnabled
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    await el.scrollToCell(900, false);
+    await el.updateComplete;
+
+    expect(el.shadowRoot?.querySelector('.cell-container[data-cell-index="0"]'))
+      .to.not.exist;
+    const tabStops = el.shadowRoot?.querySelectorAll(
+      '.cell-container[tabindex="0"]'
+    );
+    expect(tabStops?.length).to.equal(1);
+  });
+
+  it('moves the focus between cells with the arrow, Home and End keys', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        style="--infiniteScrollerCellMinWidth: 100%"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const pressKey = async (key: string) => {
+      el.shadowRoot?.activeElement?.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true })
+      );
+      await el.updateComplete;
+    };
+
+    (cells?.[0] as HTMLElement).focus();
+    await pressKey('ArrowRight');
+    expect(el.shadowRoot?.activeElement).to.equal(cells?.[1]);
+    expect(cells?.[1].getAttribute('tabindex')).to.equal('0');
+    expect(cells?.[0].getAttribute('tabindex')).to.equal('-1');
+
+    // a single column, so down moves to the next cell
+    await pressKey('ArrowDown');
+    expect(el.shadowRoot?.activeElement).to.equal(cells?.[2]);
+
+    await pressKey('End');
+    expect(el.shadowRoot?.activeElement).to.equal(cells?.[4]);
+
+    await pressKey('Home');
+    expect(el.shadowRoot?.activeElement).to.equal(cells?.[0]);
+  });
+
+  it('selects cells with click, Ctrl-click and Shift-click', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        selectionMode="multiple"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const selectionEvents: number[][] = [];
+    el.addEventListener('selectionChanged', e =>
+      selectionEvents.push(
+        (e as CustomEvent<SelectionChangedDetails>).detail.selectedIndices
+      )
+    );
+
+    cells?.[1].dispatchEvent(new MouseEvent('click'));
+    cells?.[3].dispatchEvent(new MouseEvent('click', { ctrlKey: true }));
+    await el.updateComplete;
+    expect(el.getSelectedIndices()).to.deep.equal([1, 3]);
+    expect(cells?.[1].getAttribute('aria-selected')).to.equal('true');
+    expect(cells?.[2].getAttribute('aria-selected')).to.equal('false');
+
+    cells?.[0].dispatchEvent(new MouseEvent('click', { shiftKey: true }));
+    expect(el.getSelectedIndices()).to.deep.equal([0, 1, 2, 3]);
+    expect(selectionEvents).to.deep.equal([[1], [1, 3], [0, 1, 2, 3]]);
+  });
+
+  it('toggles the selection of the focused cell with Space', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        selectionMode="single"
+      ></infinite-scroller>`
+    );
+    const cell = el.shadowRoot?.querySelector('.cell-container');
+
+    cell?.dispatchEvent(new KeyboardEvent('keydown', { key: ' ' }));
+    expect(el.getSelectedIndices()).to.deep.equal([0]);
+    cell?.dispatchEvent(new KeyboardEvent('keydown', { key: ' ' }));
+    expect(el.getSelectedIndices()).to.deep.equal([]);
+  });
+
+  it('selects all cells including unrendered ones', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        selectionMode="multiple"
+        virtualizationEnabled
+      ></infinite-scroller>`
+    );
+
+    el.selectAll();
+    expect(el.getSelectedIndices().length).to.equal(1000);
+
+    el.clearSelection();
+    expect(el.getSelectedIndices()).to.deep.equal([]);
+  });
+
+  it('trims the selection when switching to single selection and clears it on reload', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        selectionMode="multiple"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    cells?.[1].dispatchEvent(new MouseEvent('click'));
+    cells?.[3].dispatchEvent(new MouseEvent('click', { ctrlKey: true }));
+    expect(el.getSelectedIndices()).to.deep.equal([1, 3]);
+
+    el.selectionMode = 'single';
+    await el.updateComplete;
+    expect(el.getSelectedIndices()).to.deep.equal([3]);
+
+    el.reload();
+    expect(el.getSelectedIndices()).to.deep.equal([]);
+  });
+
+  it('does not track the selection by default', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
+    );
+    const cell = el.shadowRoot?.querySelector('.cell-container');
+
+    cell?.dispatchEvent(new MouseEvent('click'));
+    await el.updateComplete;
+    expect(el.getSelectedIndices()).to.deep.equal([]);
+    expect(cell?.hasAttribute('aria-selected')).to.be.false;
+  });
+
+  it('lays out the cells in a single column in the list layout', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        layout="list"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const [first, second] = Array.from(cells ?? []) as HTMLElement[];
+
+    expect(second.offsetLeft).to.equal(first.offsetLeft);
+    expect(second.offsetTop).to.be.greaterThan(first.offsetTop);
+  });
+
+  it('lays out the cells in a fixed number of columns in the fixed grid layout', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .fixedColumnCount=${2}
+        layout="fixed-grid"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const [first, second, third] = Array.from(cells ?? []) as HTMLElement[];
+
+    expect(second.offsetTop).to.equal(first.offsetTop);
+    expect(second.offsetLeft).to.be.greaterThan(first.offsetLeft);
+    expect(third.offsetLeft).to.equal(first.offsetLeft);
+    expect(third.offsetTop).to.be.greaterThan(first.offsetTop);
+  });
+
+  it('makes masonry cells span rows for the height of their content', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<div style="height: ${(index + 1) * 40}px"></div>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${2}
+        .cellProvider=${cellProvider}
+        layout="masonry"
+        style="--infiniteScrollerRowGap: 0"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+
+    expect((cells?.[0] as HTMLElement).style.gridRowEnd).to.equal('span 10');
+    expect((cells?.[1] as HTMLElement).style.gridRowEnd).to.equal('span 20');
+  });
+
+  it('lays out the cells in a single scrolling row when horizontal', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        orientation="horizontal"
+      ></infinite-scroller>`
+    );
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    const [first, second] = Array.from(cells ?? []) as HTMLElement[];
+
+    expect(second.offsetTop).to.equal(first.offsetTop);
+    expect(second.offsetLeft).to.be.greaterThan(first.offsetLeft);
+    expect(el.scrollWidth).to.be.greaterThan(el.clientWidth);
+  });
+
+  it('scrolls within itself when the scroll container is self', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        scrollContainer="self"
+        style="height: 200px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    expect(el.getVisibleCellIndices()).to.not.include(19);
+
+    el.scrollToCell(10, false);
+    await promisedSleep(100);
+
+    expect(el.scrollTop).to.be.greaterThan(0);
+    expect(window.scrollY).to.equal(0);
+    expect(el.getVisibleCellIndices()).to.include(10);
+  });
+
+  it('observes visibility within a scroll container given as a selector', async () => {
+    const wrapper = await fixture<HTMLDivElement>(
+      html`<div id="panel" style="height: 200px; overflow-y: auto">
+        <infinite-scroller
+          .itemCount=${20}
+          scrollContainer="#panel"
+        ></infinite-scroller>
+      </div>`
+    );
+    const el = wrapper.querySelector('infinite-scroller') as InfiniteScroller;
+    await promisedSleep(100);
+    expect(el.getVisibleCellIndices()).to.include(0);
+    expect(el.getVisibleCellIndices()).to.not.include(19);
+
+    el.scrollToCell(19, false);
+    await promisedSleep(100);
+
+    expect(wrapper.scrollTop).to.be.greaterThan(0);
+    expect(el.getVisibleCellIndices()).to.include(19);
+  });
+
+  it('renders the number of trailing cells from the buffer policy', async () => {
+    const renderedIndices = new Set<number>();
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined => {
+        renderedIndices.add(index);
+        return html` cell-${index} `;
+      },
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        .cellProvider=${cellProvider}
+        .bufferPolicy=${{ leadingCells: 0, trailingCells: 2 }}
+        layout="list"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const lastVisibleIndex = Math.max(...el.getVisibleCellIndices());
+    expect(renderedIndices.has(lastVisibleIndex + 2)).to.be.true;
+    expect(renderedIndices.has(lastVisibleIndex + 3)).to.be.false;
+  });
+
+  it('renders the buffer for a new buffer policy without scrolling', async () => {
+    const renderedIndices = new Set<number>();
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined => {
+        renderedIndices.add(index);
+        return html` cell-${index} `;
+      },
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${1000}
+        .cellProvider=${cellProvider}
+        .bufferPolicy=${{ leadingCells: 0, trailingCells: 2 }}
+        layout="list"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const lastVisibleIndex = Math.max(...el.getVisibleCellIndices());
+    expect(renderedIndices.has(lastVisibleIndex + 10)).to.be.false;
+
+    el.bufferPolicy = { leadingCells: 0, trailingCells: 10 };
+    await el.updateComplete;
+
+    expect(renderedIndices.has(lastVisibleIndex + 10)).to.be.true;
+  });
+
+  it('renders more cells with a larger overscan', async () => {
+    const renderCount = async (overscanViewports: number) => {
+      const el = await fixture<InfiniteScroller>(
+        html`<infinite-scroller
+          .itemCount=${1000}
+          .bufferPolicy=${{ overscanViewports }}
+          virtualizationEnabled
+        ></infinite-scroller>`
+      );
+      await promisedSleep(100);
+      const count = el.shadowRoot?.querySelectorAll('.cell-container').length;
+      // the next scroller would be rendered below this one, out of view
+      el.remove();
+      return count ?? 0;
+    };
+
+    const defaultCount = await renderCount(0);
+    const overscanCount = await renderCount(5);
+    expect(overscanCount).to.be.greaterThan(defaultCount);
+  });
+
+  it('re-renders recycled cell DOM when recycling is enabled', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<span class="tile">cell-${index}</span>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${200}
+        .cellProvider=${cellProvider}
+        cellRecyclingEnabled
+        layout="list"
+        scrollContainer="self"
+        style="height: 200px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const firstTile = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"] .tile'
+    );
+
+    el.scrollToCell(199, false);
+    await promisedSleep(200);
+
+    expect(el.getCellPoolMetrics().hits).to.be.greaterThan(0);
+    expect(firstTile?.isConnected).to.be.true;
+    expect(firstTile?.textContent).to.not.equal('cell-0');
+  });
+
+  it('recycles the DOM of a refreshed cell into the cell itself', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<span class="tile">cell-${index}</span>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .cellProvider=${cellProvider}
+        cellRecyclingEnabled
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const tileSelector = '.cell-container[data-cell-index="0"] .tile';
+    const tile = el.shadowRoot?.querySelector(tileSelector);
+
+    el.refreshCell(0);
+
+    expect(el.shadowRoot?.querySelector(tileSelector)).to.equal(tile);
+    expect(el.getCellPoolMetrics().hits).to.equal(1);
+    expect(el.getCellPoolMetrics().pooledCellCount).to.equal(0);
+  });
+
+  it('does not pool cells when recycling is disabled', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${200}
+        layout="list"
+        scrollContainer="self"
+        style="height: 200px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    el.scrollToCell(199, false);
+    await promisedSleep(200);
+
+    expect(el.getCellPoolMetrics()).to.deep.equal({
+      hits: 0,
+      misses: 0,
+      pooledCellCount: 0,
+    });
+  });
+
+  it('aligns the cell it scrolls to', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${100}
+        layout="list"
+        scrollContainer="self"
+        style="height: 300px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const cell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="50"]'
+    ) as HTMLElement;
+    const hostRect = () => el.getBoundingClientRect();
+
+    await el.scrollToCell(50, { block: 'start', offset: 20 });
+    expect(cell.getBoundingClientRect().top - hostRect().top).to.be.closeTo(
+      20,
+      1
+    );
+
+    await el.scrollToCell(50, { block: 'end' });
+    expect(cell.getBoundingClientRect().bottom).to.be.closeTo(
+      hostRect().bottom,
+      1
+    );
+  });
+
+  it('rejects scrolling to a cell outside of the item count', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${10}></infinite-scroller>`
+    );
+    let error: unknown;
+    try {
+      await el.scrollToCell(10);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(RangeError);
+  });
+
+  it('renders a header before the first cell of each section', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html` cell-${index} `,
+      headerForSection: (section: number): TemplateResult | undefined =>
+        html` section-${section} `,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .sectionItemCounts=${[3, 0, 5]}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const headers = el.shadowRoot?.querySelectorAll('.section-header');
+    const secondHeader = headers?.[1] as HTMLElement;
+    expect(el.itemCount).to.equal(8);
+    expect(headers?.length).to.equal(2);
+    expect(secondHeader.innerText).to.equal('section-2');
+    expect(
+      secondHeader.nextElementSibling?.getAttribute('data-cell-index')
+    ).to.equal('3');
+  });
+
+  it('reports the section and item of selected cells', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .sectionItemCounts=${[3, 5]}></infinite-scroller>`
+    );
+    const cell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="4"]'
+    );
+
+    setTimeout(() => {
+      cell?.dispatchEvent(new MouseEvent('click'));
+    });
+    const event: CustomEvent<CellSelectionDetails> = await oneEvent(
+      el,
+      'cellSelected'
+    );
+    expect(event.detail.index).to.equal(4);
+    expect(event.detail.indexPath).to.deep.equal({ section: 1, item: 1 });
+    expect(el.indexForIndexPath({ section: 1, item: 1 })).to.equal(4);
+    expect(el.indexPathForIndex(8)).to.be.undefined;
+  });
+
+  it('moves between the rows of sections and keeps their counts when items change', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .sectionItemCounts=${[3, 2]}
+        .fixedColumnCount=${2}
+      ></infinite-scroller>`
+    );
+    const cell = (index: number) =>
+      el.shadowRoot?.querySelector(
+        `.cell-container[data-cell-index="${index}"]`
+      ) as HTMLElement;
+    const pressKey = async (key: string) => {
+      el.shadowRoot?.activeElement?.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true })
+      );
+      await el.updateComplete;
+    };
+
+    // the second section starts a new row below the third cell
+    cell(1).focus();
+    await pressKey('ArrowDown');
+    expect(el.shadowRoot?.activeElement).to.equal(cell(2));
+    await pressKey('ArrowDown');
+    expect(el.shadowRoot?.activeElement).to.equal(cell(3));
+    await pressKey('ArrowUp');
+    expect(el.shadowRoot?.activeElement).to.equal(cell(2));
+
+    el.insertItems(3, 1);
+    await el.updateComplete;
+    expect(el.sectionItemCounts).to.deep.equal([3, 3]);
+    el.removeItems(0, 2);
+    await el.updateComplete;
+    expect(el.sectionItemCounts).to.deep.equal([1, 3]);
+    el.moveItem(0, 2);
+    await el.updateComplete;
+    expect(el.sectionItemCounts).to.deep.equal([0, 4]);
+    expect(el.itemCount).to.equal(4);
+  });
+
+  it('reports the visible range with the intersection ratios', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${50}
+        layout="list"
+        scrollContainer="self"
+        style="height: 300px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    setTimeout(() => el.scrollToCell(20));
+    const event: CustomEvent<VisibleCellsChangedDetails> = await oneEvent(
+      el,
+      'visibleCellsChanged'
+    );
+    const { visibleCellIndices, firstVisibleIndex, lastVisibleIndex } =
+      event.detail;
+    expect(visibleCellIndices).to.deep.equal(
+      [...visibleCellIndices].sort((a, b) => a - b)
+    );
+    expect(firstVisibleIndex).to.equal(visibleCellIndices[0]);
+    expect(lastVisibleIndex).to.equal(
+      visibleCellIndices[visibleCellIndices.length - 1]
+    );
+    event.detail.fullyVisibleCellIndices.forEach(index =>
+      expect(event.detail.intersectionRatios[index]).to.be.greaterThan(0.99)
+    );
+  });
+
+  it('emits a scrollSettled event once the scrolling stops', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${50}
+        layout="list"
+        scrollContainer="self"
+        style="height: 300px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    setTimeout(() => {
+      el.scrollTop = 1000;
+    });
+    const event: CustomEvent<ScrollSettledDetails> = await oneEvent(
+      el,
+      'scrollSettled'
+    );
+    expect(event.detail.scrollDirection).to.equal('forward');
+    expect(event.detail.firstVisibleIndex).to.be.greaterThan(0);
+  });
+
+  it('emits a cellImpression event once per cell after the dwell time', async () => {
+    const impressions: number[] = [];
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .impressionDwellTime=${50}
+        @cellImpression=${(e: CustomEvent<CellImpressionDetails>) =>
+          impressions.push(e.detail.index)}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(200);
+    expect(impressions.sort()).to.deep.equal([0, 1, 2]);
+
+    el.refreshAllVisibleCells();
+    await promisedSleep(200);
+    expect(impressions.length).to.equal(3);
+  });
+
+  it('does not need an intersection observer until it is rendered', async () => {
+    const el = document.createElement('infinite-scroller') as InfiniteScroller;
+    el.itemCount = 5;
+    expect(() => el.reload()).to.not.throw();
+
+    document.body.appendChild(el);
+    await el.updateComplete;
+    await promisedSleep(100);
+    expect(el.getVisibleCellIndices()).to.include(0);
+    el.remove();
+  });
+
+  it('does not inline cells when rendered on the client', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${3}></infinite-scroller>`
+    );
+    expect(el.shadowRoot?.querySelector('.prerendered-cell')).to.not.exist;
+  });
+
+  it('requests a refresh when scrolling up past the top', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        pullToRefreshEnabled
+      ></infinite-scroller>`
+    );
+
+    setTimeout(() => {
+      for (let i = 0; i < 3; i += 1) {
+        el.dispatchEvent(new WheelEvent('wheel', { deltaY: -50 }));
+      }
+    });
+    const event: CustomEvent<RefreshRequestedDetails> = await oneEvent(
+      el,
+      'refreshRequested'
+    );
+    await el.updateComplete;
+    const indicator = el.shadowRoot?.querySelector(
+      '#refresh-indicator'
+    ) as HTMLElement;
+    expect(indicator.offsetHeight).to.be.greaterThan(0);
+
+    event.detail.complete();
+    await el.updateComplete;
+    expect(indicator.offsetHeight).to.equal(0);
+  });
+
+  it('only refreshes on a wheel pull that starts at rest at the top', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        scrollContainer="self"
+        style="height: 200px; --infiniteScrollerCellMinHeight: 50px"
+        pullToRefreshEnabled
+      ></infinite-scroller>`
+    );
+    let refreshCount = 0;
+    el.addEventListener('refreshRequested', () => {
+      refreshCount += 1;
+    });
+    const wheel = (deltaY: number, deltaMode = WheelEvent.DOM_DELTA_PIXEL) =>
+      el.dispatchEvent(new WheelEvent('wheel', { deltaY, deltaMode }));
+
+    // the momentum of scrolling up to the top isn't a pull
+    el.scrollTop = 100;
+    wheel(-50);
+    el.scrollTop = 0;
+    for (let i = 0; i < 3; i += 1) wheel(-50);
+    expect(refreshCount).to.equal(0);
+
+    // lines count as pixels once the wheel has come to rest
+    await promisedSleep(400);
+    wheel(-3, WheelEvent.DOM_DELTA_LINE);
+    wheel(-3, WheelEvent.DOM_DELTA_LINE);
+    expect(refreshCount).to.equal(1);
+  });
+
+  it('grows the refresh indicator as the cells are pulled down', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        pullToRefreshEnabled
+      ></infinite-scroller>`
+    );
+    const touch = (clientY: number) =>
+      new Touch({ identifier: 1, target: el, clientY });
+    const indicator = el.shadowRoot?.querySelector(
+      '#refresh-indicator'
+    ) as HTMLElement;
+
+    el.dispatchEvent(new TouchEvent('touchstart', { touches: [touch(0)] }));
+    el.dispatchEvent(new TouchEvent('touchmove', { touches: [touch(100)] }));
+    expect(indicator.offsetHeight).to.equal(50);
+    expect(indicator.innerText).to.equal('Pull to refresh');
+    // pulling sizes the indicator without rendering the scroller again
+    expect(el.isUpdatePending).to.be.false;
+
+    el.dispatchEvent(new TouchEvent('touchmove', { touches: [touch(200)] }));
+    expect(indicator.innerText).to.equal('Release to refresh');
+
+    setTimeout(() => el.dispatchEvent(new TouchEvent('touchend')));
+    await oneEvent(el, 'refreshRequested');
+    await el.updateComplete;
+    expect(indicator.innerText).to.equal('Refreshing…');
+  });
+
+  it('contains the overscroll of its scroll container while pull-to-refresh is on', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        scrollContainer="self"
+        style="height: 200px"
+        pullToRefreshEnabled
+      ></infinite-scroller>`
+    );
+    expect(el.style.getPropertyValue('overscroll-behavior-y')).to.equal(
+      'contain'
+    );
+
+    el.pullToRefreshEnabled = false;
+    await el.updateComplete;
+    expect(el.style.getPropertyValue('overscroll-behavior-y')).to.equal('');
+
+    // the document's overscroll is left to the page
+    el.scrollContainer = undefined;
+    el.pullToRefreshEnabled = true;
+    await el.updateComplete;
+    expect(
+      document.documentElement.style.getPropertyValue('overscroll-behavior-y')
+    ).to.equal('');
+  });
+
+  it('inserts the pending new items when the pill is clicked', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        .pendingNewItemCount=${3}
+      ></infinite-scroller>`
+    );
+    const pill = el.shadowRoot?.querySelector(
+      '#new-items-pill'
+    ) as HTMLButtonElement;
+    expect(pill.innerText).to.equal('3 new items');
+
+    setTimeout(() => pill.click());
+    const event: CustomEvent<NewItemsShownDetails> = await oneEvent(
+      el,
+      'newItemsShown'
+    );
+    await el.updateComplete;
+
+    expect(event.detail.count).to.equal(3);
+    expect(el.itemCount).to.equal(23);
+    expect(el.shadowRoot?.querySelector('#new-items-pill')).to.not.exist;
+  });
+
+  it('does not emit scrollThresholdReached when there are no more items', async () => {
+    let thresholdCount = 0;
+    await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .hasMore=${false}
+        @scrollThresholdReached=${() => {
+          thresholdCount += 1;
+        }}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(200);
+    expect(thresholdCount).to.equal(0);
+  });
+
+  it('emits scrollThresholdReached once loading finishes', async () => {
+    let thresholdCount = 0;
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        loading
+        @scrollThresholdReached=${() => {
+          thresholdCount += 1;
+        }}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(200);
+    expect(thresholdCount).to.equal(0);
+    expect(el.shadowRoot?.querySelector('#loading-footer')).to.exist;
+
+    el.loading = false;
+    await promisedSleep(200);
+    expect(thresholdCount).to.equal(1);
+    expect(el.shadowRoot?.querySelector('#loading-footer')).to.not.exist;
+  });
+
+  it('shows the end footer or the empty state when there are no more items', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${3}
+        .hasMore=${false}
+      ></infinite-scroller>`
+    );
+    expect(el.shadowRoot?.querySelector('#end-footer')).to.exist;
+
+    el.itemCount = 0;
+    await el.updateComplete;
+    expect(el.shadowRoot?.querySelector('#end-footer')).to.not.exist;
+    expect(el.shadowRoot?.querySelector('#empty-state')).to.exist;
+  });
+
+  it('sizes unrendered cells from the estimated size', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<div style="height: 50px">cell-${index}</div>`,
+      estimatedSizeForIndex: () => 123,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${100}
+        .cellProvider=${cellProvider}
+        layout="list"
+        scrollContainer="self"
+        style="height: 200px; --infiniteScrollerCellMinHeight: 0"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+
+    const renderedCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"]'
+    ) as HTMLElement;
+    const unrenderedCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="99"]'
+    ) as HTMLElement;
+    expect(renderedCell.offsetHeight).to.equal(50);
+    expect(unrenderedCell.offsetHeight).to.equal(123);
+  });
+
+  it('keeps the visible cells in place when a cell before them grows', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<div class="content" style="height: 50px">cell-${index}</div>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${100}
+        .cellProvider=${cellProvider}
+        layout="list"
+        scrollContainer="self"
+        style="height: 200px; --infiniteScrollerCellMinHeight: 0"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    await el.scrollToCell(20);
+    await promisedSleep(100);
+    const visibleCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="20"]'
+    ) as HTMLElement;
+    const positionBefore = visibleCell.getBoundingClientRect().top;
+
+    const content = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="15"] .content'
+    ) as HTMLElement;
+    content.style.height = '150px';
+    await promisedSleep(100);
+
+    expect(visibleCell.getBoundingClientRect().top).to.be.closeTo(
+      positionBefore,
+      1
+    );
+  });
+
+  it('moves the focused cell with Alt and the arrow keys when reordering', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        layout="list"
+        reorderEnabled
+      ></infinite-scroller>`
+    );
+    const requests: CellReorderDetails[] = [];
+    el.addEventListener('cellReorderRequested', e =>
+      requests.push((e as CustomEvent<CellReorderDetails>).detail)
+    );
+    const firstCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"]'
+    ) as HTMLElement;
+    firstCell.focus();
+    firstCell.dispatchEvent(
+      new KeyboardEvent('keydown', {
+        key: 'ArrowDown',
+        altKey: true,
+        bubbles: true,
+      })
+    );
+    await promisedSleep(10);
+
+    expect(requests).to.deep.equal([{ from: 0, to: 1 }]);
+    expect(firstCell.dataset.cellIndex).to.equal('1');
+    expect(el.shadowRoot?.activeElement).to.equal(firstCell);
+  });
+
+  it('drags a cell past the threshold, auto-scrolling near the edge, to reorder it', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${20}
+        layout="list"
+        scrollContainer="self"
+        reorderEnabled
+        style="height: 200px; --infiniteScrollerCellMinHeight: 50px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const requests: CellReorderDetails[] = [];
+    el.addEventListener('cellReorderRequested', e => requests.push(e.detail));
+    const selections: number[] = [];
+    el.addEventListener('cellSelected', e => selections.push(e.detail.index));
+    const cell = (index: number) =>
+      el.shadowRoot?.querySelector(
+        `.cell-container[data-cell-index="${index}"]`
+      ) as HTMLElement;
+    const pointer = (type: string, clientX: number, clientY: number) =>
+      new PointerEvent(type, {
+        pointerId: 1,
+        pointerType: 'mouse',
+        button: 0,
+        clientX,
+        clientY,
+        bubbles: true,
+      });
+    const hostRect = el.getBoundingClientRect();
+    const x = hostRect.left + 10;
+
+    const firstCell = cell(0);
+    firstCell.dispatchEvent(pointer('pointerdown', x, hostRect.top + 10));
+    // moving less than the threshold doesn't start the drag
+    window.dispatchEvent(pointer('pointermove', x, hostRect.top + 12));
+    expect(firstCell.classList.contains('dragging')).to.be.false;
+
+    window.dispatchEvent(pointer('pointermove', x, hostRect.bottom - 2));
+    expect(firstCell.classList.contains('dragging')).to.be.true;
+    await promisedSleep(200);
+    expect(el.scrollTop).to.be.greaterThan(0);
+
+    window.dispatchEvent(pointer('pointerup', x, hostRect.bottom - 2));
+    // the click that ends the drag doesn't select the cell
+    firstCell.dispatchEvent(new MouseEvent('click'));
+    expect(requests.length).to.equal(1);
+    expect(requests[0].from).to.equal(0);
+    expect(requests[0].to).to.be.greaterThan(0);
+    expect(selections).to.deep.equal([]);
+
+    // Escape cancels the drag without dropping the cell
+    await el.updateComplete;
+    const secondCell = cell(1);
+    const { top } = secondCell.getBoundingClientRect();
+    secondCell.dispatchEvent(pointer('pointerdown', x, top + 5));
+    window.dispatchEvent(pointer('pointermove', x, top + 40));
+    expect(secondCell.classList.contains('dragging')).to.be.true;
+    const indicator = el.shadowRoot?.querySelector(
+      '#drop-indicator'
+    ) as HTMLElement;
+    expect(indicator.hidden).to.be.false;
+    // dragging moves the indicator without rendering the scroller again
+    expect(el.isUpdatePending).to.be.false;
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(secondCell.classList.contains('dragging')).to.be.false;
+    expect(indicator.hidden).to.be.true;
+    window.dispatchEvent(pointer('pointerup', x, top + 40));
+    expect(requests.length).to.equal(1);
+  });
+
+  it('keeps the cell in place when the reorder request is cancelled', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        layout="list"
+        reorderEnabled
+        @cellReorderRequested=${(e: Event) => e.preventDefault()}
+      ></infinite-scroller>`
+    );
+    const firstCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"]'
+    ) as HTMLElement;
+    firstCell.focus();
+    firstCell.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'End', altKey: true, bubbles: true })
+    );
+    await el.updateComplete;
+
+    expect(firstCell.dataset.cellIndex).to.equal('0');
+  });
+
+  it('shows a view of the source items, keeping the DOM of the cells still in it', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`<div class="content">cell-${index}</div>`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        .cellProvider=${cellProvider}
+        layout="list"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const cellForItem4 = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="4"]'
+    );
+
+    el.setViewIndices([4, 2, 0]);
+    await el.updateComplete;
+    await promisedSleep(100);
+
+    const cells = el.shadowRoot?.querySelectorAll('.cell-container');
+    expect(el.itemCount).to.equal(3);
+    expect(cells?.length).to.equal(3);
+    expect(cells?.[0]).to.equal(cellForItem4);
+    expect(cells?.[1].textContent?.trim()).to.equal('cell-2');
+    expect(cells?.[0].getAttribute('aria-setsize')).to.equal('3');
+    expect(el.sourceIndexForIndex(2)).to.equal(0);
+    expect(el.indexForSourceIndex(1)).to.be.undefined;
+
+    el.setViewIndices(undefined);
+    await el.updateComplete;
+    expect(el.itemCount).to.equal(5);
+    expect(el.indexForSourceIndex(1)).to.equal(1);
+  });
+
+  it('leaves out repeated source indices and rejects insertions into a view', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller .itemCount=${5}></infinite-scroller>`
+    );
+    el.setViewIndices([3, 1, 3, 1]);
+    await el.updateComplete;
+    expect(el.itemCount).to.equal(2);
+    expect(el.sourceIndexForIndex(1)).to.equal(1);
+
+    expect(() => el.insertItems(0, 1)).to.throw();
+    expect(() => el.prependItems(1)).to.throw();
+    expect(el.itemCount).to.equal(2);
+  });
+
+  it('emits scrollerMetrics and marks the cell states when instrumented', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`cell-${index}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${5}
+        .cellProvider=${cellProvider}
+        instrumentationEnabled
+        debugOverlayEnabled
+      ></infinite-scroller>`
+    );
+    const event = await oneEvent(el, 'scrollerMetrics');
+    const detail = event.detail as ScrollerMetricsDetails;
+
+    expect(detail.renderedCellCount).to.equal(5);
+    expect(detail.visibleCellCount).to.be.greaterThan(0);
+    expect(detail.cellsRendered).to.be.greaterThan(0);
+    expect(
+      performance.getEntriesByName(
+        'infinite-scroller:processVisibleCells',
+        'measure'
+      ).length
+    ).to.be.greaterThan(0);
+    const firstCell = el.shadowRoot?.querySelector(
+      '.cell-container[data-cell-index="0"]'
+    );
+    expect(firstCell?.getAttribute('data-debug-state')).to.equal('visible');
+
+    el.debugOverlayEnabled = false;
+    await el.updateComplete;
+    expect(firstCell?.hasAttribute('data-debug-state')).to.be.false;
+  });
+
+  it('drops only the oldest measures of the same work', () => {
+    const instrumentation = new ScrollerInstrumentation();
+    const measures = () =>
+      performance.getEntriesByName('infinite-scroller:trimmedWork', 'measure');
+    for (let i = 0; i < 150; i += 1)
+      instrumentation.measure('trimmedWork', () => i);
+    const newest = measures()[149].startTime;
+    expect(measures().length).to.equal(150);
+
+    for (let i = 0; i < 50; i += 1)
+      instrumentation.measure('trimmedWork', () => i);
+    expect(measures().length).to.equal(100);
+    expect(measures()[49].startTime).to.equal(newest);
+    performance.clearMeasures('infinite-scroller:trimmedWork');
+  });
+
+  it('previews the label under the scrubber and requests a scrub when let go', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`cell-${index}`,
+      labelForIndex: (index: number) => `label-${index}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${101}
+        .cellProvider=${cellProvider}
+        scrollContainer="self"
+        scrubberEnabled
+        style="height: 200px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const scrubber = el.shadowRoot?.querySelector('#scrubber') as HTMLElement;
+    const { top, height } = scrubber.getBoundingClientRect();
+    expect(height).to.equal(200);
+
+    scrubber.dispatchEvent(
+      new PointerEvent('pointerdown', {
+        clientY: top + height / 2,
+        button: 0,
+        bubbles: true,
+      })
+    );
+    const bubble = el.shadowRoot?.querySelector(
+      '#scrubber-bubble'
+    ) as HTMLElement;
+    expect(bubble.hidden).to.be.false;
+    expect(bubble.textContent?.trim()).to.equal('label-50');
+
+    window.dispatchEvent(
+      new PointerEvent('pointermove', { clientY: top + height / 4 })
+    );
+    expect(bubble.textContent?.trim()).to.equal('label-25');
+    // dragging updates the bubble without rendering the scroller again
+    expect(el.isUpdatePending).to.be.false;
+
+    setTimeout(() =>
+      window.dispatchEvent(
+        new PointerEvent('pointerup', { clientY: top + height, button: 0 })
+      )
+    );
+    const event = await oneEvent(el, 'scrubRequested');
+    const detail = event.detail as ScrubRequestedDetails;
+    expect(detail.index).to.equal(100);
+    expect(bubble.hidden).to.be.true;
+  });
+
+  it('matches the scrubber to the scroll root when it resizes', async () => {
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${101}
+        scrollContainer="self"
+        scrubberEnabled
+        style="height: 200px"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const scrubber = () =>
+      el.shadowRoot?.querySelector('#scrubber') as HTMLElement;
+    expect(scrubber().offsetHeight).to.equal(200);
+
+    el.style.height = '300px';
+    await promisedSleep(100);
+    expect(scrubber().offsetHeight).to.equal(300);
+  });
+
+  it('expands the detail panel after the row of the expanded cell', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`cell-${index}`,
+      detailForIndex: (index: number): TemplateResult | undefined =>
+        html`detail-${index}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${7}
+        .cellProvider=${cellProvider}
+        .expandedIndex=${1}
+        layout="fixed-grid"
+        .fixedColumnCount=${3}
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const detailPanel = () =>
+      el.shadowRoot?.querySelector('#detail-panel') as HTMLElement;
+    const cellBefore = () =>
+      detailPanel().previousElementSibling as HTMLElement | null;
+
+    expect(detailPanel().textContent?.trim()).to.equal('detail-1');
+    expect(cellBefore()?.dataset.cellIndex).to.equal('2');
+
+    // the panel follows the cell to its new row when the column count changes
+    el.fixedColumnCount = 2;
+    await el.updateComplete;
+    await el.updateComplete;
+    expect(cellBefore()?.dataset.cellIndex).to.equal('1');
+
+    el.expandedIndex = undefined;
+    await el.updateComplete;
+    expect(detailPanel()).to.be.null;
+  });
+
+  it('moves the detail panel along with the columns when the scroller resizes', async () => {
+    const cellProvider: InfiniteScrollerCellProviderInterface = {
+      cellForIndex: (index: number): TemplateResult | undefined =>
+        html`cell-${index}`,
+      detailForIndex: (index: number): TemplateResult | undefined =>
+        html`detail-${index}`,
+    };
+    const el = await fixture<InfiniteScroller>(
+      html`<infinite-scroller
+        .itemCount=${12}
+        .cellProvider=${cellProvider}
+        .expandedIndex=${1}
+        style="width: 600px; --infiniteScrollerCellMinWidth: 100px; --infiniteScrollerColGap: 0"
+      ></infinite-scroller>`
+    );
+    await promisedSleep(100);
+    const cellBefore = () =>
+      el.shadowRoot?.querySelector('#detail-panel')
+        ?.previousElementSibling as HTMLElement | null;
+    expect(cellBefore()?.dataset.cellIndex).to.equal('5');
+
+    // without resizing the window
+    el.style.width = '200px';
+    await promisedSleep(100);
+    expect(cellBefore()?.dataset.cellIndex).to.equal('1');
+  });
 });
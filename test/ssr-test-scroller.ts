@@ -0,0 +1,31 @@
+import { html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import '../src/infinite-scroller.js';
+
+const cellProvider = {
+  cellForIndex: (index: number) =>
+    html`<span class="cell">cell-${index}</span>`,
+  headerForSection: (section: number) => html`section-${section}`,
+};
+
+/**
+ * Renders a scroller with a cell provider for the server-side rendering tests,
+ * since the fixtures can only send serializable values to the server. They
+ * don't set the properties again on the client, so pass them as attributes.
+ */
+@customElement('ssr-test-scroller')
+export class SsrTestScroller extends LitElement {
+  @property({ type: Array }) sectionItemCounts?: number[];
+
+  @property({ type: Number }) itemCount = 0;
+
+  render() {
+    return html`
+      <infinite-scroller
+        .itemCount=${this.itemCount}
+        .sectionItemCounts=${this.sectionItemCounts}
+        .cellProvider=${cellProvider}
+      ></infinite-scroller>
+    `;
+  }
+}
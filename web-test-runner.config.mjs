@@ -1,4 +1,5 @@
 // import { playwrightLauncher } from '@web/test-runner-playwright';
+import { litSsrPlugin } from '@lit-labs/testing/web-test-runner-ssr-plugin.js';
 
 const filteredLogs = ['Running in dev mode', 'lit-html is in dev mode'];
 
@@ -11,6 +12,9 @@ export default /** @type {import("@web/test-runner").TestRunnerConfig} */ ({
     exportConditions: ['browser', 'development'],
   },
 
+  /** Render the templates of the server-side rendering fixtures in Node */
+  plugins: [litSsrPlugin()],
+
   /** Filter out lit dev mode logs */
   filterBrowserLogs(log) {
     for (const arg of log.args) {